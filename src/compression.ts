@@ -0,0 +1,53 @@
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from "zlib";
+import { IdempotencyError, IdempotencySerializationError } from "./errors.js";
+import type { CompressionAlgorithm, RecordCompressionOptions } from "./types.js";
+
+const DEFAULT_THRESHOLD_BYTES = 1024;
+const ALGORITHMS: readonly CompressionAlgorithm[] = ["gzip", "brotli"];
+
+/** Stored in place of the record JSON. It has no `id`, which is how readers tell it apart from a plain record. */
+interface CompressedEnvelope {
+  readonly compression: CompressionAlgorithm;
+  readonly data: string;
+}
+
+export const validateCompression = (options: RecordCompressionOptions | undefined): void => {
+  if (!options) {
+    return;
+  }
+  if (!ALGORITHMS.includes(options.algorithm)) {
+    throw new IdempotencyError(`Unsupported compression algorithm: ${String(options.algorithm)}`);
+  }
+  const threshold = options.thresholdBytes;
+  if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 0)) {
+    throw new IdempotencyError("compression.thresholdBytes must be a non-negative integer when provided");
+  }
+};
+
+/**
+ * Wraps `json` in a compressed envelope when it is at least `thresholdBytes` long and compression
+ * actually makes it smaller. The result is still a JSON string so every store can hold it unchanged.
+ */
+export const compressJson = (json: string, options: RecordCompressionOptions): string => {
+  const input = Buffer.from(json, "utf8");
+  if (input.byteLength < (options.thresholdBytes ?? DEFAULT_THRESHOLD_BYTES)) {
+    return json;
+  }
+  const compressed = options.algorithm === "brotli" ? brotliCompressSync(input) : gzipSync(input);
+  const envelope: CompressedEnvelope = { compression: options.algorithm, data: compressed.toString("base64") };
+  const serialized = JSON.stringify(envelope);
+  return Buffer.byteLength(serialized, "utf8") < input.byteLength ? serialized : json;
+};
+
+/** Returns the record JSON held by `parsed` when it is a compressed envelope, otherwise `null`. */
+export const decompressEnvelope = (parsed: unknown): string | null => {
+  if (typeof parsed !== "object" || parsed === null || "id" in parsed || !("compression" in parsed)) {
+    return null;
+  }
+  const { compression, data } = parsed as CompressedEnvelope;
+  if (!ALGORITHMS.includes(compression) || typeof data !== "string") {
+    throw new IdempotencySerializationError(`Stored record uses unsupported compression ${String(compression)}`);
+  }
+  const input = Buffer.from(data, "base64");
+  return (compression === "brotli" ? brotliDecompressSync(input) : gunzipSync(input)).toString("utf8");
+};
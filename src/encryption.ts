@@ -0,0 +1,103 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { compressJson, decompressEnvelope } from "./compression.js";
+import { IdempotencyError, IdempotencySerializationError } from "./errors.js";
+import type {
+  EncryptionKey,
+  IdempotencyEncryptedFields,
+  IdempotencyRecord,
+  RecordCompressionOptions,
+} from "./types.js";
+
+const CIPHER = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+type SensitiveFields = Pick<IdempotencyRecord, "canonicalPayload" | "metadata" | "result">;
+
+export const validateEncryptionKeys = (keys: readonly EncryptionKey[]): void => {
+  const seen = new Set<string>();
+  for (const key of keys) {
+    if (typeof key?.id !== "string" || key.id.length === 0) {
+      throw new IdempotencyError("Encryption keys require a non-empty id");
+    }
+    if (seen.has(key.id)) {
+      throw new IdempotencyError(`Encryption key id ${key.id} is already registered`);
+    }
+    if (!(key.key instanceof Uint8Array) || key.key.byteLength !== KEY_BYTES) {
+      throw new IdempotencyError(`Encryption key ${key.id} must be ${KEY_BYTES} bytes for AES-256-GCM`);
+    }
+    seen.add(key.id);
+  }
+};
+
+// Binds the ciphertext to its record so encrypted fields cannot be replayed onto another key.
+const associatedData = (record: IdempotencyRecord): Buffer => Buffer.from(`${record.id}\n${record.payloadHash}`);
+
+const seal = (key: Uint8Array, plaintext: Buffer, aad: Buffer): string => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv).setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+};
+
+const open = (key: Uint8Array, sealed: string, aad: Buffer): Buffer => {
+  const bytes = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(CIPHER, key, bytes.subarray(0, IV_BYTES)).setAAD(aad);
+  decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+};
+
+/**
+ * Moves the canonical payload, metadata and result into an envelope: the fields are encrypted with a
+ * fresh data key, and the data key is wrapped with the first (current) key encryption key. With
+ * `compression`, the fields are compressed before sealing because ciphertext does not compress.
+ */
+export const encryptRecord = (
+  record: IdempotencyRecord,
+  keys: readonly EncryptionKey[],
+  compression?: RecordCompressionOptions,
+): IdempotencyRecord => {
+  const { canonicalPayload, metadata, result, ...visible } = record;
+  if (canonicalPayload === undefined && metadata === undefined && result === undefined) {
+    return visible;
+  }
+
+  const [current] = keys;
+  const aad = associatedData(record);
+  const dataKey = randomBytes(KEY_BYTES);
+  const fields: SensitiveFields = { canonicalPayload, metadata, result };
+  const json = JSON.stringify(fields);
+  const plaintext = compression ? compressJson(json, compression) : json;
+  const encrypted: IdempotencyEncryptedFields = {
+    keyId: current.id,
+    dataKey: seal(current.key, dataKey, aad),
+    data: seal(dataKey, Buffer.from(plaintext, "utf8"), aad),
+  };
+  return { ...visible, encrypted };
+};
+
+export const decryptRecord = (record: IdempotencyRecord, keys: readonly EncryptionKey[]): IdempotencyRecord => {
+  const { encrypted, ...visible } = record;
+  if (!encrypted) {
+    return record;
+  }
+
+  const key = keys.find((candidate) => candidate.id === encrypted.keyId);
+  if (!key) {
+    throw new IdempotencySerializationError(
+      `Record ${record.id} is encrypted with unknown key ${encrypted.keyId}`,
+    );
+  }
+
+  try {
+    const aad = associatedData(record);
+    const dataKey = open(key.key, encrypted.dataKey, aad);
+    const sealed = JSON.parse(open(dataKey, encrypted.data, aad).toString("utf8")) as unknown;
+    const decompressed = decompressEnvelope(sealed);
+    const fields = (decompressed === null ? sealed : JSON.parse(decompressed)) as SensitiveFields;
+    return { ...visible, ...fields };
+  } catch {
+    throw new IdempotencySerializationError(`Failed to decrypt record ${record.id} with key ${encrypted.keyId}`);
+  }
+};
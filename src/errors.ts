@@ -12,9 +12,58 @@ export class IdempotencyCollisionError extends IdempotencyError {
   }
 }
 
+export class IdempotencyKeyMismatchError extends IdempotencyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyKeyMismatchError";
+  }
+}
+
 export class IdempotencySerializationError extends IdempotencyError {
   constructor(message: string) {
     super(message);
     this.name = "IdempotencySerializationError";
   }
 }
+
+export class IdempotencyResultTooLargeError extends IdempotencyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyResultTooLargeError";
+  }
+}
+
+export class IdempotencyInProgressError extends IdempotencyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyInProgressError";
+  }
+}
+
+export class IdempotencyFailedError extends IdempotencyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyFailedError";
+  }
+}
+
+export class IdempotencyLeaseLostError extends IdempotencyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyLeaseLostError";
+  }
+}
+
+export class IdempotencyStoreUnavailableError extends IdempotencyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyStoreUnavailableError";
+  }
+}
+
+export class IdempotencyWaitTimeoutError extends IdempotencyInProgressError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdempotencyWaitTimeoutError";
+  }
+}
@@ -0,0 +1,94 @@
+import { IdempotencyError } from "./errors.js";
+import type {
+  IdempotencyExpirySweeper,
+  IdempotencyExpirySweeperMetrics,
+  IdempotencyExpirySweeperOptions,
+  IdempotencyStore,
+} from "./types.js";
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Calls `store.purgeExpired` on an interval so stores without native expiry stay bounded. Sweeps never
+ * overlap, failures are counted and passed to `onError`, and the timer does not keep the process alive.
+ * Errors thrown by `onSweep` or `onError` are ignored so they cannot be counted as failed sweeps.
+ */
+export const startExpirySweeper = (
+  store: IdempotencyStore,
+  options: IdempotencyExpirySweeperOptions = {},
+): IdempotencyExpirySweeper => {
+  if (typeof store.purgeExpired !== "function") {
+    throw new IdempotencyError("The configured store does not support purging expired entries");
+  }
+  const purgeExpired = store.purgeExpired.bind(store);
+  const intervalMs = options.intervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+  if (!Number.isInteger(intervalMs) || intervalMs <= 0) {
+    throw new IdempotencyError("intervalMs must be a positive integer when provided");
+  }
+
+  let metrics: IdempotencyExpirySweeperMetrics = {
+    runs: 0,
+    failures: 0,
+    rowsRemoved: 0,
+    lastRowsRemoved: 0,
+    lastRunAt: null,
+    lastDurationMs: null,
+  };
+  let running: Promise<number> | null = null;
+
+  const notify = (callback: () => void): void => {
+    try {
+      callback();
+    } catch {
+      // A failing callback must not turn a sweep into a failure or escape the timer.
+    }
+  };
+
+  const run = async (): Promise<number> => {
+    const startedAt = Date.now();
+    let removed: number;
+    try {
+      removed = await purgeExpired({ batchSize: options.batchSize });
+    } catch (error) {
+      metrics = {
+        ...metrics,
+        runs: metrics.runs + 1,
+        failures: metrics.failures + 1,
+        lastRowsRemoved: 0,
+        lastRunAt: new Date(startedAt).toISOString(),
+        lastDurationMs: Date.now() - startedAt,
+      };
+      throw error;
+    }
+    metrics = {
+      ...metrics,
+      runs: metrics.runs + 1,
+      rowsRemoved: metrics.rowsRemoved + removed,
+      lastRowsRemoved: removed,
+      lastRunAt: new Date(startedAt).toISOString(),
+      lastDurationMs: Date.now() - startedAt,
+    };
+    notify(() => options.onSweep?.(removed, metrics));
+    return removed;
+  };
+
+  const sweep = (): Promise<number> => {
+    if (!running) {
+      running = run().finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  };
+
+  const timer = setInterval(() => {
+    sweep().catch((error: unknown) => notify(() => options.onError?.(error)));
+  }, intervalMs);
+  timer.unref?.();
+
+  return {
+    sweep,
+    metrics: () => metrics,
+    stop: () => clearInterval(timer),
+  };
+};
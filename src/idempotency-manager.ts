@@ -1,34 +1,192 @@
-import { canonicalize, deserializeRecord, hashCanonicalValue, serializeRecord } from "./utils.js";
-import { IdempotencyCollisionError, IdempotencyError } from "./errors.js";
+import { randomUUID } from "crypto";
+import {
+  canonicalize,
+  deserializeRecord,
+  formatId,
+  hashCanonicalValue,
+  RECOMMENDED_MIN_TRUNCATE_BYTES,
+  serializeRecord,
+  validateHmacKeys,
+  validateSerializers,
+  validateTruncateBytes,
+} from "./utils.js";
+import type { CanonicalizeOptions } from "./utils.js";
+import { compileFieldSelection } from "./projection.js";
+import { validateEncryptionKeys } from "./encryption.js";
+import { validateCompression } from "./compression.js";
+import { reportStoreCalls } from "./instrumentation/store-calls.js";
+import {
+  IdempotencyCollisionError,
+  IdempotencyError,
+  IdempotencyFailedError,
+  IdempotencyInProgressError,
+  IdempotencyKeyMismatchError,
+  IdempotencyLeaseLostError,
+  IdempotencyResultTooLargeError,
+  IdempotencyWaitTimeoutError,
+} from "./errors.js";
 import type {
+  CanonicalFormat,
+  CanonicalizationMode,
+  EncryptionKey,
+  FieldSelection,
   HashAlgorithm,
+  HashEncoding,
+  HmacKey,
+  JsonValue,
+  IdempotencyEvent,
+  IdempotencyHeartbeat,
+  IdempotencyHeartbeatOptions,
+  IdempotencyInstrumentation,
+  IdempotencyKeyedRegisterOptions,
+  IdempotencyLease,
+  IdempotencyListedRecord,
+  IdempotencyListOptions,
   IdempotencyLookupResult,
   IdempotencyManagerOptions,
   IdempotencyRecord,
   IdempotencyRegisterOptions,
   IdempotencyRegistrationResult,
+  IdempotencyResult,
+  IdempotencyRunOptions,
+  IdempotencyRunResult,
+  IdempotencyStatus,
   IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+  IdempotencyTransitionOptions,
+  IdempotencyWaitOptions,
+  RecordCompressionOptions,
 } from "./types.js";
 
 const DEFAULT_PREFIX = "idempotency";
 const DEFAULT_HASH_ALGORITHM: HashAlgorithm = "sha256";
+// Keeps serialized records well below the DynamoDB 400 KB item and Memcached 1 MB value limits.
+const DEFAULT_MAX_RESULT_BYTES = 256 * 1024;
+const DEFAULT_WAIT_TIMEOUT_MS = 30_000;
+const DEFAULT_WAIT_INITIAL_DELAY_MS = 50;
+const DEFAULT_WAIT_MAX_DELAY_MS = 1_000;
+const DEFAULT_WAIT_BACKOFF_FACTOR = 2;
+const MAX_CLIENT_KEY_LENGTH = 255;
+const MAX_SCOPE_LENGTH = 64;
+// Client keys live under their own namespace so they can never equal a payload-hash id.
+const CLIENT_KEY_NAMESPACE = "key";
+const MAX_CONDITIONAL_ATTEMPTS = 5;
+
+interface ResolvedFormat {
+  readonly version: number;
+  readonly canonicalization: CanonicalizationMode;
+  readonly hashAlgorithm: HashAlgorithm;
+  readonly hashEncoding: HashEncoding;
+  readonly truncateBytes: number | undefined;
+  readonly hmacKeys: readonly HmacKey[];
+  readonly canonicalizeOptions: CanonicalizeOptions;
+}
+
+interface PayloadDigest {
+  readonly format: ResolvedFormat;
+  readonly canonicalPayload: string;
+  readonly payloadHash: string;
+  readonly hmacKeyId?: string;
+  readonly id: string;
+}
+
+interface RecordMutation {
+  readonly record: IdempotencyRecord;
+  readonly ttlSeconds: number | null;
+}
+
+interface ClaimTarget {
+  readonly id: string;
+  /** `Date.now()` when the registration started, used for event timings. */
+  readonly startedAt: number;
+  readonly digest: PayloadDigest;
+  /** Payload hash `record` should carry given the format and HMAC key it was written with. */
+  readonly expectedHash: (record: IdempotencyRecord) => string | undefined;
+  readonly mismatch: (key: string) => IdempotencyError;
+  readonly retry: () => Promise<IdempotencyRegistrationResult>;
+}
 
 const isFiniteTtl = (ttlSeconds: number | null | undefined): ttlSeconds is number =>
   typeof ttlSeconds === "number" && Number.isFinite(ttlSeconds) && ttlSeconds > 0;
 
+const remainingTtl = (stored: IdempotencyStoreValue, record: IdempotencyRecord): number | null => {
+  if (typeof stored.ttlSeconds === "number") {
+    return Math.max(1, stored.ttlSeconds);
+  }
+  if (stored.ttlSeconds === null) {
+    return null;
+  }
+  return isFiniteTtl(record.ttlSeconds) ? record.ttlSeconds : null;
+};
+
+/** Applies wait defaults, rejecting values that would turn the polling loop into a busy spin. */
+const resolveWaitOptions = (options: IdempotencyWaitOptions): Required<IdempotencyWaitOptions> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+    throw new IdempotencyError("wait.timeoutMs must be a non-negative number when provided");
+  }
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_WAIT_INITIAL_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_WAIT_MAX_DELAY_MS;
+  for (const [name, delay] of [
+    ["initialDelayMs", initialDelayMs],
+    ["maxDelayMs", maxDelayMs],
+  ] as const) {
+    if (!Number.isFinite(delay) || delay <= 0) {
+      throw new IdempotencyError(`wait.${name} must be a positive number when provided`);
+    }
+  }
+  const backoffFactor = options.backoffFactor ?? DEFAULT_WAIT_BACKOFF_FACTOR;
+  if (!Number.isFinite(backoffFactor) || backoffFactor < 1) {
+    throw new IdempotencyError("wait.backoffFactor must be a number of at least 1 when provided");
+  }
+  return { timeoutMs, initialDelayMs, maxDelayMs, backoffFactor };
+};
+
+const buildLease = (leaseSeconds: number): IdempotencyLease => ({
+  token: randomUUID(),
+  expiresAt: new Date(Date.now() + leaseSeconds * 1000).toISOString(),
+});
+
+const sortedPatterns = (patterns: readonly string[] | undefined): string[] =>
+  patterns ? Array.from(new Set(patterns)).sort() : [];
+
+const sameFieldSelection = (a: FieldSelection | undefined, b: FieldSelection | undefined): boolean =>
+  JSON.stringify([sortedPatterns(a?.include), sortedPatterns(a?.exclude)]) ===
+  JSON.stringify([sortedPatterns(b?.include), sortedPatterns(b?.exclude)]);
+
+const isLeaseExpired = (lease: IdempotencyLease | undefined): boolean =>
+  lease !== undefined && Date.parse(lease.expiresAt) <= Date.now();
+
 export class IdempotencyManager {
   private readonly store: IdempotencyStore;
   private readonly keyPrefix: string;
   private readonly defaultTtlSeconds: number | null;
-  private readonly hashAlgorithm: HashAlgorithm;
   private readonly storeCanonicalPayload: boolean;
+  private readonly maxResultBytes: number | null;
+  private readonly leaseSeconds: number | null;
+  private readonly fieldSelection: FieldSelection | undefined;
+  private readonly format: ResolvedFormat;
+  private readonly previousFormats: readonly ResolvedFormat[];
+  private readonly encryptionKeys: readonly EncryptionKey[];
+  private readonly compression: RecordCompressionOptions | undefined;
+  private readonly instrumentation: IdempotencyInstrumentation | undefined;
 
   constructor(store: IdempotencyStore, options: IdempotencyManagerOptions = {}) {
     if (!store) {
       throw new IdempotencyError("A storage adapter instance is required");
     }
 
-    this.store = store;
+    this.instrumentation = options.instrumentation;
+    this.store = this.instrumentation
+      ? reportStoreCalls(store, (operation, key, durationMs, failed, error) =>
+          this.emit(
+            failed
+              ? { type: "store_error", key, durationMs, operation, error }
+              : { type: "store_call", key, durationMs, operation },
+          ),
+        )
+      : store;
     this.keyPrefix = options.keyPrefix?.replace(/:+$/, "") ?? DEFAULT_PREFIX;
     const defaultTtl = options.defaultTtlSeconds;
     if (defaultTtl === undefined || defaultTtl === null) {
@@ -39,13 +197,78 @@ export class IdempotencyManager {
       }
       this.defaultTtlSeconds = defaultTtl;
     }
-    this.hashAlgorithm = options.hashAlgorithm ?? DEFAULT_HASH_ALGORITHM;
     this.storeCanonicalPayload = options.storeCanonicalPayload ?? false;
+    const maxResultBytes = options.maxResultBytes;
+    if (maxResultBytes === undefined) {
+      this.maxResultBytes = DEFAULT_MAX_RESULT_BYTES;
+    } else if (maxResultBytes === null) {
+      this.maxResultBytes = null;
+    } else {
+      if (!Number.isInteger(maxResultBytes) || maxResultBytes <= 0) {
+        throw new IdempotencyError("maxResultBytes must be a positive integer or null when provided");
+      }
+      this.maxResultBytes = maxResultBytes;
+    }
+    this.leaseSeconds = this.resolveLeaseSeconds(options.leaseSeconds, null);
+    if (this.leaseSeconds !== null) {
+      // Lease owners can only finish through conditional writes, so fail before any handler runs.
+      this.requireConditionalUpdates();
+    }
+    this.fieldSelection =
+      options.fieldSelection?.include?.length || options.fieldSelection?.exclude?.length
+        ? options.fieldSelection
+        : undefined;
+    // Surface invalid patterns and serializers at construction rather than on the first request.
+    compileFieldSelection(this.fieldSelection);
+    const serializers = options.serializers ?? [];
+    validateSerializers(serializers);
+    this.encryptionKeys = options.encryptionKeys ?? [];
+    validateEncryptionKeys(this.encryptionKeys);
+    validateCompression(options.compression);
+    this.compression = options.compression;
+    const resolveFormat = (format: CanonicalFormat): ResolvedFormat => {
+      if (!Number.isInteger(format.version) || format.version <= 0) {
+        throw new IdempotencyError("Format versions must be positive integers");
+      }
+      const canonicalization = format.canonicalization ?? "steadykey";
+      const hashAlgorithm = format.hashAlgorithm ?? DEFAULT_HASH_ALGORITHM;
+      validateTruncateBytes(hashAlgorithm, format.truncateBytes);
+      const hmacKeys = format.hmacKeys ?? [];
+      validateHmacKeys(hmacKeys);
+      return {
+        version: format.version,
+        canonicalization,
+        hashAlgorithm,
+        hashEncoding: format.hashEncoding ?? "hex",
+        truncateBytes: format.truncateBytes,
+        hmacKeys,
+        canonicalizeOptions: { fieldSelection: this.fieldSelection, serializers, mode: canonicalization },
+      };
+    };
+    this.format = resolveFormat({
+      version: options.formatVersion ?? 1,
+      canonicalization: options.canonicalization,
+      hashAlgorithm: options.hashAlgorithm,
+      hashEncoding: options.hashEncoding,
+      truncateBytes: options.truncateBytes,
+      hmacKeys: options.hmacKeys,
+    });
+    if (this.format.truncateBytes !== undefined && this.format.truncateBytes < RECOMMENDED_MIN_TRUNCATE_BYTES) {
+      process.emitWarning(
+        `truncateBytes of ${this.format.truncateBytes} leaves ${this.format.truncateBytes * 8}-bit keys; ` +
+          `use at least ${RECOMMENDED_MIN_TRUNCATE_BYTES} bytes to keep accidental collisions negligible`,
+        { code: "STEADYKEY_SHORT_DIGEST" },
+      );
+    }
+    this.previousFormats = (options.previousFormats ?? []).map(resolveFormat);
+    const versions = new Set([this.format.version, ...this.previousFormats.map((format) => format.version)]);
+    if (versions.size !== this.previousFormats.length + 1) {
+      throw new IdempotencyError("previousFormats must not repeat the current or another format version");
+    }
   }
 
   public generateId(payload: unknown): string {
-    const canonicalPayload = canonicalize(payload);
-    return hashCanonicalValue(canonicalPayload, this.hashAlgorithm);
+    return this.digests(payload, this.format)[0].id;
   }
 
   public buildKey(id: string): string {
@@ -63,80 +286,835 @@ export class IdempotencyManager {
     payload: unknown,
     options: IdempotencyRegisterOptions = {},
   ): Promise<IdempotencyRegistrationResult> {
-    const canonicalPayload = canonicalize(payload);
-    const id = hashCanonicalValue(canonicalPayload, this.hashAlgorithm);
-  const key = this.buildKey(id);
-    const ttlSeconds = this.resolveTtl(options.ttlSeconds);
-    const storeCanonicalPayload = options.storeCanonicalPayload ?? this.storeCanonicalPayload;
+    this.validateWait(options);
+    const { target, candidates } = this.registrationTarget(payload, options);
+    return this.observeRegistration(target, this.registerTarget(target, candidates, options));
+  }
+
+  private async registerTarget(
+    target: ClaimTarget,
+    candidates: readonly PayloadDigest[],
+    options: IdempotencyRegisterOptions,
+  ): Promise<IdempotencyRegistrationResult> {
+    // During a migration or key rotation a duplicate may still live under a key produced by an
+    // older format or a secret that no longer signs new keys.
+    for (const previous of candidates) {
+      const stored = await this.store.get(this.buildKey(previous.id));
+      if (stored) {
+        return this.settlePrevious(target, options, previous, stored);
+      }
+    }
+
+    return this.claim(target, options);
+  }
+
+  /**
+   * Registers several payloads with as few store round trips as the store allows. Results are returned
+   * in input order, and repeated payloads within the batch resolve as duplicates of the first one.
+   * Like {@link register}, the first failure is thrown; registrations already written stay in place.
+   */
+  public async registerMany(
+    payloads: readonly unknown[],
+    options: IdempotencyRegisterOptions = {},
+  ): Promise<IdempotencyRegistrationResult[]> {
+    this.validateWait(options);
+    const prepared = payloads.map((payload) => this.registrationTarget(payload, options));
+    const results: (IdempotencyRegistrationResult | undefined)[] = new Array(payloads.length);
+
+    const candidateKeys = prepared.flatMap(({ candidates }) => candidates.map(({ id }) => this.buildKey(id)));
+    const candidateValues = await this.getMany(candidateKeys);
+    let offset = 0;
+    for (const [index, { target, candidates }] of prepared.entries()) {
+      for (const previous of candidates) {
+        const stored = candidateValues[offset++];
+        if (stored && results[index] === undefined) {
+          results[index] = await this.settlePrevious(target, options, previous, stored);
+        }
+      }
+    }
+
+    const claimed = new Map<string, number>();
+    const batch: { index: number; key: string; record: IdempotencyRecord; serialized: string }[] = [];
+    const repeated: { index: number; first: number }[] = [];
+    for (const [index, { target }] of prepared.entries()) {
+      if (results[index] !== undefined) {
+        continue;
+      }
+      const key = this.buildKey(target.id);
+      const first = claimed.get(key);
+      if (first !== undefined) {
+        repeated.push({ index, first });
+        continue;
+      }
+      claimed.set(key, index);
+      const record = this.newRecord(target, options);
+      batch.push({ index, key, record, serialized: this.serializeRecord(record) });
+    }
+
+    const inserted = await this.setManyIfAbsent(
+      batch.map(({ key, serialized, record }) => ({ key, value: serialized, ttlSeconds: record.ttlSeconds ?? null })),
+    );
+    const conflicts = batch.filter((_, position) => !inserted[position]);
+    const existingValues = await this.getMany(conflicts.map(({ key }) => key));
+    for (const [position, { index, key, record }] of batch.entries()) {
+      if (inserted[position]) {
+        results[index] = { id: record.id, key, stored: true, record };
+      }
+    }
+    for (const [position, { index, key, record, serialized }] of conflicts.entries()) {
+      const { target } = prepared[index];
+      results[index] = await this.resolveConflict(target, options, key, record, serialized, existingValues[position]);
+    }
+
+    // Waiting on a repeat would wait on the record this batch just claimed, so it shares the first result.
+    for (const { index, first } of repeated) {
+      const { id, key, record } = results[first]!;
+      results[index] = { id, key, stored: false, record };
+    }
+    for (const [index, { target }] of prepared.entries()) {
+      this.emitRegistration(target, results[index]!);
+    }
+    return results as IdempotencyRegistrationResult[];
+  }
+
+  /**
+   * Registers `payload` under an opaque key chosen by the client. The payload fingerprint is stored
+   * next to the key, and reusing the key with a different payload throws {@link IdempotencyKeyMismatchError}.
+   * The resulting id is namespaced, scoped when `options.scope` is given, and ends in a digest of the
+   * client key, so its length is bounded and a `:` inside the client key cannot mimic a scope.
+   */
+  public async registerWithKey(
+    clientKey: string,
+    payload: unknown,
+    options: IdempotencyKeyedRegisterOptions = {},
+  ): Promise<IdempotencyRegistrationResult> {
+    if (typeof clientKey !== "string" || clientKey.length === 0 || clientKey.length > MAX_CLIENT_KEY_LENGTH) {
+      throw new IdempotencyError(
+        `Client keys must be non-empty strings of at most ${MAX_CLIENT_KEY_LENGTH} characters`,
+      );
+    }
+    const { scope, ...registerOptions } = options;
+    if (
+      scope !== undefined &&
+      (typeof scope !== "string" || scope.length === 0 || scope.length > MAX_SCOPE_LENGTH || scope.includes(":"))
+    ) {
+      throw new IdempotencyError(
+        `scope must be a non-empty string of at most ${MAX_SCOPE_LENGTH} characters without ':' when provided`,
+      );
+    }
+
+    this.validateWait(registerOptions);
+    const digest = hashCanonicalValue(clientKey, "sha256", { encoding: "base64url" });
+    const id = [CLIENT_KEY_NAMESPACE, ...(scope === undefined ? [] : [scope]), digest].join(":");
+    const target = this.keyedTarget(id, payload, registerOptions);
+    return this.observeRegistration(target, this.claim(target, registerOptions));
+  }
+
+  private keyedTarget(id: string, payload: unknown, options: IdempotencyRegisterOptions): ClaimTarget {
+    const [digest] = this.digests(payload, this.format);
+    return {
+      id,
+      startedAt: Date.now(),
+      digest,
+      expectedHash: (record) => this.expectedHash(payload, digest, record),
+      mismatch: (key) => new IdempotencyKeyMismatchError(`Key ${key} was already used with a different payload`),
+      retry: () => this.claim(this.keyedTarget(id, payload, options), options),
+    };
+  }
+
+  private registrationTarget(
+    payload: unknown,
+    options: IdempotencyRegisterOptions,
+  ): { target: ClaimTarget; candidates: PayloadDigest[] } {
+    const [digest, ...rotated] = this.digests(payload, this.format);
+    const target: ClaimTarget = {
+      id: digest.id,
+      startedAt: Date.now(),
+      digest,
+      expectedHash: (record) => this.expectedHash(payload, digest, record),
+      mismatch: (key) => new IdempotencyCollisionError(`Collision detected for key ${key}`),
+      retry: () => {
+        const next = this.registrationTarget(payload, options);
+        return this.registerTarget(next.target, next.candidates, options);
+      },
+    };
+    const candidates = [...rotated, ...this.previousFormats.flatMap((format) => this.digests(payload, format))];
+    return { target, candidates };
+  }
+
+  private settlePrevious(
+    target: ClaimTarget,
+    options: IdempotencyRegisterOptions,
+    previous: PayloadDigest,
+    stored: IdempotencyStoreValue,
+  ): Promise<IdempotencyRegistrationResult> {
+    const key = this.buildKey(previous.id);
+    const record = this.deserializeRecord(stored.value);
+    if (record.payloadHash !== previous.payloadHash) {
+      throw this.rejectMismatch(target, key);
+    }
+    return this.settleDuplicate(target, options, previous.id, key, record);
+  }
 
-    const record: IdempotencyRecord = {
+  private newRecord(target: ClaimTarget, options: IdempotencyRegisterOptions): IdempotencyRecord {
+    const { id, digest } = target;
+    const storeCanonicalPayload = options.storeCanonicalPayload ?? this.storeCanonicalPayload;
+    const leaseSeconds = this.resolveLeaseSeconds(options.leaseSeconds, this.leaseSeconds);
+    if (leaseSeconds !== null) {
+      this.requireConditionalUpdates();
+    }
+    return {
       id,
-      payloadHash: id,
+      payloadHash: digest.payloadHash,
       createdAt: new Date().toISOString(),
+      status: "in_progress",
+      formatVersion: digest.format.version,
+      canonicalization: digest.format.canonicalization,
+      hashAlgorithm: digest.format.hashAlgorithm,
+      hmacKeyId: digest.hmacKeyId,
+      lease: leaseSeconds === null ? undefined : buildLease(leaseSeconds),
+      fieldSelection: this.fieldSelection,
       metadata: options.metadata,
-      canonicalPayload: storeCanonicalPayload ? canonicalPayload : undefined,
-      ttlSeconds,
+      canonicalPayload: storeCanonicalPayload ? digest.canonicalPayload : undefined,
+      ttlSeconds: this.resolveTtl(options.ttlSeconds),
     };
+  }
 
-    const serialized = serializeRecord({ record });
-    const inserted = await this.store.setIfAbsent(key, serialized, ttlSeconds);
+  private async claim(
+    target: ClaimTarget,
+    options: IdempotencyRegisterOptions,
+  ): Promise<IdempotencyRegistrationResult> {
+    const key = this.buildKey(target.id);
+    const record = this.newRecord(target, options);
+    const serialized = this.serializeRecord(record);
+    const inserted = await this.store.setIfAbsent(key, serialized, record.ttlSeconds ?? null);
     if (inserted) {
-      return { id, key, stored: true, record };
+      return { id: target.id, key, stored: true, record };
     }
 
     const existingValue = await this.store.get(key);
+    return this.resolveConflict(target, options, key, record, serialized, existingValue);
+  }
+
+  /** Decides the outcome when `record` could not be inserted because `key` already held `existingValue`. */
+  private async resolveConflict(
+    target: ClaimTarget,
+    options: IdempotencyRegisterOptions,
+    key: string,
+    record: IdempotencyRecord,
+    serialized: string,
+    existingValue: IdempotencyStoreValue | null,
+  ): Promise<IdempotencyRegistrationResult> {
+    const { id } = target;
     if (!existingValue) {
       throw new IdempotencyError("Failed to persist idempotency record due to concurrent deletion");
     }
 
-    const existingRecord = deserializeRecord(existingValue.value);
+    const existingRecord = this.deserializeRecord(existingValue.value);
+
+    const expectedHash = target.expectedHash(existingRecord);
+    if (expectedHash === undefined) {
+      const hmacKey = existingRecord.hmacKeyId === undefined ? "" : ` with HMAC key ${existingRecord.hmacKeyId}`;
+      throw new IdempotencyError(
+        `Record for key ${key} uses unsupported format version ${existingRecord.formatVersion}${hmacKey}`,
+      );
+    }
+    if (existingRecord.payloadHash !== expectedHash) {
+      throw this.rejectMismatch(target, key);
+    }
+
+    if (existingRecord.status === "in_progress" && isLeaseExpired(existingRecord.lease)) {
+      // The previous owner stopped renewing its lease, so this caller may take the key over.
+      this.requireConditionalUpdates();
+      const takenOver = await this.replaceIfUnchanged(key, existingValue, serialized, record.ttlSeconds ?? null);
+      if (takenOver) {
+        return { id, key, stored: true, record };
+      }
+      const current = await this.store.get(key);
+      if (current) {
+        return this.settleDuplicate(target, options, id, key, this.deserializeRecord(current.value));
+      }
+    }
+
+    return this.settleDuplicate(target, options, id, key, existingRecord);
+  }
+
+  /**
+   * Waits until the registration for `id` leaves the in-progress state, polling the store with
+   * exponential backoff and waking early when the store can push change notifications. Resolves to
+   * `null` when the record disappears, for example because the original caller cleared it after a failure.
+   */
+  public async waitForCompletion(
+    id: string,
+    options: IdempotencyWaitOptions = {},
+  ): Promise<IdempotencyLookupResult | null> {
+    const key = this.buildKey(id);
+    const { timeoutMs, initialDelayMs, maxDelayMs, backoffFactor } = resolveWaitOptions(options);
+    const deadline = Date.now() + timeoutMs;
+    let delayMs = initialDelayMs;
+
+    let changed = false;
+    let wake: (() => void) | null = null;
+    const unwatch = this.store.watch
+      ? await this.store.watch(key, () => {
+          changed = true;
+          wake?.();
+        })
+      : undefined;
+
+    try {
+      for (;;) {
+        changed = false;
+        const result = await this.findById(id);
+        if (!result || result.record.status !== "in_progress" || isLeaseExpired(result.record.lease)) {
+          return result;
+        }
+
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          throw new IdempotencyWaitTimeoutError(`Timed out waiting for key ${key} to complete`);
+        }
+
+        if (!changed) {
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, Math.min(delayMs, remainingMs));
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          wake = null;
+        }
+        delayMs = Math.min(maxDelayMs, delayMs * backoffFactor);
+      }
+    } finally {
+      await unwatch?.();
+    }
+  }
+
+  /**
+   * Executes `handler` at most once per payload. The caller that wins the registration runs the
+   * handler and stores its return value; duplicates receive the stored value instead. When the
+   * handler throws, the key is cleared (default) or marked failed depending on `onError`.
+   */
+  public async run<T extends JsonValue>(
+    payload: unknown,
+    handler: () => Promise<T>,
+    options: IdempotencyRunOptions = {},
+  ): Promise<IdempotencyRunResult<T>> {
+    const { onError = "clear", ...registerOptions } = options;
+    const registration = await this.register(payload, registerOptions);
+    const { id, key } = registration;
+
+    if (!registration.stored) {
+      const value = this.replayValue<T>(key, registration.record);
+      return { id, key, executed: false, value, record: registration.record };
+    }
+
+    const leaseToken = registration.record.lease?.token;
+    const heartbeat = leaseToken === undefined ? undefined : this.startHeartbeat(id, leaseToken);
+    try {
+      const value = await handler();
+      const record = await this.markCompleted(id, {
+        result: { body: { encoding: "json", data: value } },
+        leaseToken,
+      });
+      return { id, key, executed: true, value, record };
+    } catch (error) {
+      try {
+        if (onError === "fail") {
+          await this.markFailed(id, { leaseToken });
+        } else {
+          await this.clear(id);
+        }
+      } catch {
+        // The original failure is more useful to the caller than a cleanup failure.
+      }
+      throw error;
+    } finally {
+      heartbeat?.stop();
+    }
+  }
 
-    if (existingRecord.payloadHash !== record.payloadHash) {
-      throw new IdempotencyCollisionError(`Collision detected for key ${key}`);
+  /**
+   * Extends the lease held by `leaseToken`. Throws {@link IdempotencyLeaseLostError} when another
+   * caller has taken the key over or the registration is no longer in progress.
+   */
+  public async renewLease(id: string, leaseToken: string, leaseSeconds?: number): Promise<IdempotencyRecord> {
+    const key = this.buildKey(id);
+    const duration = this.resolveLeaseSeconds(leaseSeconds, this.leaseSeconds);
+    if (duration === null) {
+      throw new IdempotencyError("leaseSeconds must be configured to renew a lease");
+    }
+
+    this.requireConditionalUpdates();
+    return this.mutateRecord(
+      key,
+      () => new IdempotencyLeaseLostError(`Lease for key ${key} was lost because the key no longer exists`),
+      (existingRecord, stored) => {
+        this.assertLeaseOwner(key, existingRecord, leaseToken);
+        const lease = { token: leaseToken, expiresAt: new Date(Date.now() + duration * 1000).toISOString() };
+        return { record: { ...existingRecord, lease }, ttlSeconds: remainingTtl(stored, existingRecord) };
+      },
+    );
+  }
+
+  /**
+   * Renews the lease in the background until stopped. Renewal failures stop the heartbeat and are
+   * reported through `onLost`.
+   */
+  public startHeartbeat(
+    id: string,
+    leaseToken: string,
+    options: IdempotencyHeartbeatOptions = {},
+  ): IdempotencyHeartbeat {
+    const leaseSeconds = this.resolveLeaseSeconds(options.leaseSeconds, this.leaseSeconds);
+    if (leaseSeconds === null) {
+      throw new IdempotencyError("leaseSeconds must be configured to start a heartbeat");
     }
 
-    return { id, key, stored: false, record: existingRecord };
+    const intervalMs = options.intervalMs ?? Math.max(1, Math.floor((leaseSeconds * 1000) / 3));
+    let stopped = false;
+    let renewing = false;
+    const timer = setInterval(() => {
+      if (stopped || renewing) {
+        return;
+      }
+      renewing = true;
+      this.renewLease(id, leaseToken, leaseSeconds)
+        .catch((error: unknown) => {
+          if (!stopped) {
+            stop();
+            options.onLost?.(error);
+          }
+        })
+        .finally(() => {
+          renewing = false;
+        });
+    }, intervalMs);
+    timer.unref?.();
+
+    const stop = (): void => {
+      stopped = true;
+      clearInterval(timer);
+    };
+
+    return { stop };
   }
 
   public async lookupByPayload(payload: unknown): Promise<IdempotencyLookupResult | null> {
-    const canonicalPayload = canonicalize(payload);
-    const id = hashCanonicalValue(canonicalPayload, this.hashAlgorithm);
-    return this.lookupById(id);
+    const startedAt = Date.now();
+    const ids = [this.format, ...this.previousFormats].flatMap((format) =>
+      this.digests(payload, format).map(({ id }) => id),
+    );
+    for (const id of ids) {
+      const result = await this.findById(id);
+      if (result) {
+        return this.observeLookup(this.buildKey(id), startedAt, result);
+      }
+    }
+    return this.observeLookup(this.buildKey(ids[0]), startedAt, null);
+  }
+
+  /** Looks up several payloads at once. Results are in input order, with `null` for unknown payloads. */
+  public async lookupManyByPayload(payloads: readonly unknown[]): Promise<(IdempotencyLookupResult | null)[]> {
+    const startedAt = Date.now();
+    const ids = payloads.map((payload) =>
+      [this.format, ...this.previousFormats].flatMap((format) => this.digests(payload, format).map(({ id }) => id)),
+    );
+    const values = await this.getMany(ids.flat().map((id) => this.buildKey(id)));
+    let offset = 0;
+    return ids.map((candidates) => {
+      let result: IdempotencyLookupResult | null = null;
+      for (const id of candidates) {
+        const stored = values[offset++];
+        if (stored && !result) {
+          result = this.toLookupResult(id, stored);
+        }
+      }
+      return this.observeLookup(result?.key ?? this.buildKey(candidates[0]), startedAt, result);
+    });
   }
 
   public async lookupById(id: string): Promise<IdempotencyLookupResult | null> {
-  const key = this.buildKey(id);
+    const startedAt = Date.now();
+    return this.observeLookup(this.buildKey(id), startedAt, await this.findById(id));
+  }
+
+  private async findById(id: string): Promise<IdempotencyLookupResult | null> {
+    const key = this.buildKey(id);
     const stored = await this.store.get(key);
     if (!stored) {
       return null;
     }
+    return this.toLookupResult(id, stored);
+  }
 
-    const record = deserializeRecord(stored.value);
-    const ttlSeconds = stored.ttlSeconds ?? record.ttlSeconds ?? null;
-    return { id, key, record, ttlSeconds };
+  /**
+   * Iterates the records stored under this manager's key prefix, optionally narrowed to ids starting
+   * with `options.prefix`. Each result carries a cursor that resumes the listing after it.
+   */
+  public async *listRecords(options: IdempotencyListOptions = {}): AsyncGenerator<IdempotencyListedRecord> {
+    if (typeof this.store.scan !== "function") {
+      throw new IdempotencyError("The configured store does not support scanning");
+    }
+    const keyPrefix = this.buildKey("");
+    const entries = this.store.scan(`${keyPrefix}${options.prefix ?? ""}`, {
+      cursor: options.cursor,
+      limit: options.limit,
+    });
+    for await (const entry of entries) {
+      yield { ...this.toLookupResult(entry.key.slice(keyPrefix.length), entry), cursor: entry.cursor };
+    }
   }
 
   public async clear(id: string): Promise<boolean> {
-  const key = this.buildKey(id);
-    return this.store.delete(key);
+    const startedAt = Date.now();
+    const key = this.buildKey(id);
+    const deleted = await this.store.delete(key);
+    this.emit({ type: "clear", key, durationMs: Date.now() - startedAt });
+    return deleted;
+  }
+
+  /** Clears several ids at once and resolves to the number of records that existed. */
+  public async clearMany(ids: readonly string[]): Promise<number> {
+    const startedAt = Date.now();
+    const keys = Array.from(new Set(ids.map((id) => this.buildKey(id))));
+    if (keys.length === 0) {
+      return 0;
+    }
+    let deleted: number;
+    if (typeof this.store.deleteMany === "function") {
+      deleted = await this.store.deleteMany(keys);
+    } else {
+      deleted = (await Promise.all(keys.map((key) => this.store.delete(key)))).filter(Boolean).length;
+    }
+    for (const key of keys) {
+      this.emit({ type: "clear", key, durationMs: Date.now() - startedAt });
+    }
+    return deleted;
   }
 
   public async updateTtl(id: string, ttlSeconds: number | null | undefined): Promise<void> {
     const key = this.buildRedisKey(id);
     const newTtl = this.resolveTtl(ttlSeconds);
 
-    const stored = await this.store.get(key);
-    if (!stored) {
-      throw new IdempotencyError(`Cannot update TTL for missing key ${key}`);
+    if (typeof this.store.touch === "function") {
+      const stored = await this.store.get(key);
+      if (!stored) {
+        throw new IdempotencyError(`Cannot update TTL for missing key ${key}`);
+      }
+      // The record keeps its original `ttlSeconds`, which is only safe when lookups report the store's
+      // expiry instead. Stores that report none fall back to the record, so it has to be rewritten.
+      if (stored.ttlSeconds !== undefined) {
+        if (!(await this.store.touch(key, newTtl))) {
+          throw new IdempotencyError(`Cannot update TTL for missing key ${key}`);
+        }
+        return;
+      }
     }
 
-    const existingRecord = deserializeRecord(stored.value);
-    const recordToStore: IdempotencyRecord = {
-      ...existingRecord,
-      ttlSeconds: isFiniteTtl(newTtl) ? newTtl : null,
-    };
-    const serialized = serializeRecord({ record: recordToStore });
-    await this.store.update(key, serialized, newTtl);
+    await this.mutateRecord(
+      key,
+      () => new IdempotencyError(`Cannot update TTL for missing key ${key}`),
+      (existingRecord) => ({
+        record: { ...existingRecord, ttlSeconds: isFiniteTtl(newTtl) ? newTtl : null },
+        ttlSeconds: newTtl,
+      }),
+    );
+  }
+
+  /**
+   * Marks an in-progress registration as completed so duplicates can treat it as done.
+   * A `result` passed here is stored on the record and replayed to later duplicates.
+   */
+  public async markCompleted(
+    id: string,
+    options: IdempotencyTransitionOptions = {},
+  ): Promise<IdempotencyRecord> {
+    return this.transition(id, "completed", options);
+  }
+
+  /**
+   * Marks an in-progress registration as failed. The record is kept until it is cleared or expires.
+   */
+  public async markFailed(id: string, options: IdempotencyTransitionOptions = {}): Promise<IdempotencyRecord> {
+    return this.transition(id, "failed", options);
+  }
+
+  private async transition(
+    id: string,
+    status: IdempotencyStatus,
+    options: IdempotencyTransitionOptions,
+  ): Promise<IdempotencyRecord> {
+    const key = this.buildKey(id);
+    const { leaseToken } = options;
+    if (leaseToken !== undefined) {
+      this.requireConditionalUpdates();
+    }
+    if (options.result !== undefined) {
+      this.assertResultSize(key, options.result);
+    }
+    const newTtl = options.ttlSeconds === undefined ? undefined : this.resolveTtl(options.ttlSeconds);
+
+    return this.mutateRecord(
+      key,
+      () => new IdempotencyError(`Cannot mark missing key ${key} as ${status}`),
+      (existingRecord, stored) => {
+        if (leaseToken !== undefined) {
+          this.assertLeaseOwner(key, existingRecord, leaseToken);
+        } else if (existingRecord.status !== "in_progress") {
+          throw new IdempotencyError(
+            `Cannot mark key ${key} as ${status} because it is already ${existingRecord.status}`,
+          );
+        }
+
+        const record: IdempotencyRecord = {
+          ...existingRecord,
+          status,
+          updatedAt: new Date().toISOString(),
+          lease: undefined,
+          metadata: options.metadata === undefined ? existingRecord.metadata : options.metadata,
+          result: options.result ?? existingRecord.result,
+          ttlSeconds: newTtl === undefined ? existingRecord.ttlSeconds : isFiniteTtl(newTtl) ? newTtl : null,
+        };
+        return { record, ttlSeconds: newTtl === undefined ? remainingTtl(stored, existingRecord) : newTtl };
+      },
+    );
+  }
+
+  /**
+   * Reads the record under `key`, applies `mutate` and writes the result back only if no other writer
+   * touched the key in between, re-reading and retrying otherwise. `mutate` runs again on every attempt,
+   * so its checks always see the latest record. Stores without conditional updates get a plain `update`.
+   */
+  private async mutateRecord(
+    key: string,
+    missing: () => IdempotencyError,
+    mutate: (record: IdempotencyRecord, stored: IdempotencyStoreValue) => RecordMutation,
+  ): Promise<IdempotencyRecord> {
+    for (let attempt = 1; ; attempt += 1) {
+      const stored = await this.store.get(key);
+      if (!stored) {
+        throw missing();
+      }
+
+      const { record, ttlSeconds } = mutate(this.deserializeRecord(stored.value), stored);
+      const serialized = this.serializeRecord(record);
+      const replaced = await this.replaceIfUnchanged(key, stored, serialized, ttlSeconds);
+      if (replaced === null) {
+        await this.store.update(key, serialized, ttlSeconds);
+        return record;
+      }
+      if (replaced) {
+        return record;
+      }
+      if (attempt === MAX_CONDITIONAL_ATTEMPTS) {
+        throw new IdempotencyError(`Gave up updating key ${key} after ${attempt} conflicting concurrent writes`);
+      }
+    }
+  }
+
+  /**
+   * Writes `value` only if `stored` is still current, comparing versions when the store supports
+   * `compareAndSet` and raw values otherwise. Resolves to `null` when the store can do neither.
+   */
+  private async replaceIfUnchanged(
+    key: string,
+    stored: IdempotencyStoreValue,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean | null> {
+    const { store } = this;
+    if (typeof store.compareAndSet === "function" && stored.version !== undefined) {
+      return store.compareAndSet(key, stored.version, value, ttlSeconds);
+    }
+    if (typeof store.updateIfMatches === "function") {
+      return store.updateIfMatches(key, stored.value, value, ttlSeconds);
+    }
+    return null;
+  }
+
+  /** Surfaces invalid wait options on every registration, not only once a duplicate has to wait. */
+  private validateWait(options: IdempotencyRegisterOptions): void {
+    if (typeof options.wait === "object") {
+      resolveWaitOptions(options.wait);
+    }
+  }
+
+  private async settleDuplicate(
+    target: ClaimTarget,
+    options: IdempotencyRegisterOptions,
+    id: string,
+    key: string,
+    record: IdempotencyRecord,
+  ): Promise<IdempotencyRegistrationResult> {
+    if (!options.wait || record.status !== "in_progress") {
+      return { id, key, stored: false, record };
+    }
+
+    const settled = await this.waitForCompletion(id, options.wait === true ? {} : options.wait);
+    if (!settled || settled.record.status === "in_progress") {
+      // The original caller released the key or abandoned its lease, so try to claim it again.
+      return target.retry();
+    }
+    return { id, key, stored: false, record: settled.record };
+  }
+
+  private async observeRegistration(
+    target: ClaimTarget,
+    pending: Promise<IdempotencyRegistrationResult>,
+  ): Promise<IdempotencyRegistrationResult> {
+    const result = await pending;
+    this.emitRegistration(target, result);
+    return result;
+  }
+
+  private emitRegistration(target: ClaimTarget, result: IdempotencyRegistrationResult): void {
+    const type = result.stored ? "register_stored" : "register_duplicate";
+    this.emit({ type, key: result.key, durationMs: Date.now() - target.startedAt });
+  }
+
+  private rejectMismatch(target: ClaimTarget, key: string): IdempotencyError {
+    const error = target.mismatch(key);
+    if (error instanceof IdempotencyCollisionError) {
+      this.emit({ type: "collision", key, durationMs: Date.now() - target.startedAt, error });
+    }
+    return error;
+  }
+
+  private observeLookup(
+    key: string,
+    startedAt: number,
+    result: IdempotencyLookupResult | null,
+  ): IdempotencyLookupResult | null {
+    this.emit({ type: result ? "lookup_hit" : "lookup_miss", key, durationMs: Date.now() - startedAt });
+    return result;
+  }
+
+  private emit(event: IdempotencyEvent): void {
+    try {
+      this.instrumentation?.onEvent(event);
+    } catch {
+      // Instrumentation must never change the outcome of the operation it observes.
+    }
+  }
+
+  /** One digest per accepted HMAC key of `format`, signing key first; a single plain digest otherwise. */
+  private digests(payload: unknown, format: ResolvedFormat): PayloadDigest[] {
+    const canonicalPayload = canonicalize(payload, format.canonicalizeOptions);
+    const keys: readonly (HmacKey | undefined)[] = format.hmacKeys.length > 0 ? format.hmacKeys : [undefined];
+    return keys.map((hmacKey) => {
+      const payloadHash = hashCanonicalValue(canonicalPayload, format.hashAlgorithm, {
+        hmacKey,
+        encoding: format.hashEncoding,
+        truncateBytes: format.truncateBytes,
+      });
+      const id = formatId(payloadHash, format.version);
+      return { format, canonicalPayload, payloadHash, hmacKeyId: hmacKey?.id, id };
+    });
+  }
+
+  private expectedHash(payload: unknown, digest: PayloadDigest, record: IdempotencyRecord): string | undefined {
+    if (record.formatVersion === digest.format.version && record.hmacKeyId === digest.hmacKeyId) {
+      return digest.payloadHash;
+    }
+    const formats = [this.format, ...this.previousFormats];
+    const format = formats.find((candidate) => candidate.version === record.formatVersion);
+    if (!format) {
+      return undefined;
+    }
+    return this.digests(payload, format).find((candidate) => candidate.hmacKeyId === record.hmacKeyId)?.payloadHash;
+  }
+
+  private toLookupResult(id: string, stored: IdempotencyStoreValue): IdempotencyLookupResult {
+    const record = this.deserializeRecord(stored.value);
+    const ttlSeconds = stored.ttlSeconds === undefined ? record.ttlSeconds ?? null : stored.ttlSeconds;
+    const fieldSelectionMatches = sameFieldSelection(record.fieldSelection, this.fieldSelection);
+    return { id, key: this.buildKey(id), record, ttlSeconds, fieldSelectionMatches };
+  }
+
+  private async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    if (typeof this.store.getMany === "function") {
+      return this.store.getMany(keys);
+    }
+    return Promise.all(keys.map((key) => this.store.get(key)));
+  }
+
+  private async setManyIfAbsent(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    if (typeof this.store.setManyIfAbsent === "function") {
+      return this.store.setManyIfAbsent(entries);
+    }
+    return Promise.all(entries.map(({ key, value, ttlSeconds }) => this.store.setIfAbsent(key, value, ttlSeconds)));
+  }
+
+  private serializeRecord(record: IdempotencyRecord): string {
+    return serializeRecord({ record, encryptionKeys: this.encryptionKeys, compression: this.compression });
+  }
+
+  private deserializeRecord(value: string): IdempotencyRecord {
+    return deserializeRecord(value, this.encryptionKeys);
+  }
+
+  private replayValue<T extends JsonValue>(key: string, record: IdempotencyRecord): T {
+    if (record.status === "in_progress") {
+      throw new IdempotencyInProgressError(`Request for key ${key} is still in progress`);
+    }
+    if (record.status === "failed") {
+      throw new IdempotencyFailedError(`Request for key ${key} previously failed`);
+    }
+    const body = record.result?.body;
+    if (!body || body.encoding !== "json") {
+      throw new IdempotencyError(`Completed record for key ${key} has no stored value to replay`);
+    }
+    return body.data as T;
+  }
+
+  private assertLeaseOwner(key: string, record: IdempotencyRecord, leaseToken: string): void {
+    if (record.status !== "in_progress" || record.lease?.token !== leaseToken) {
+      throw new IdempotencyLeaseLostError(`Lease for key ${key} is no longer held by this caller`);
+    }
+  }
+
+  private requireConditionalUpdates(): void {
+    const { store } = this;
+    if (typeof store.updateIfMatches !== "function" && typeof store.compareAndSet !== "function") {
+      throw new IdempotencyError("The configured store does not support conditional updates required for leases");
+    }
+  }
+
+  private resolveLeaseSeconds(
+    leaseSeconds: number | null | undefined,
+    fallback: number | null,
+  ): number | null {
+    if (leaseSeconds === undefined) {
+      return fallback;
+    }
+    if (leaseSeconds === null) {
+      return null;
+    }
+    if (!Number.isInteger(leaseSeconds) || leaseSeconds <= 0) {
+      throw new IdempotencyError("leaseSeconds must be a positive integer or null when provided");
+    }
+    return leaseSeconds;
+  }
+
+  private assertResultSize(key: string, result: IdempotencyResult): void {
+    if (this.maxResultBytes === null) {
+      return;
+    }
+    const size = Buffer.byteLength(JSON.stringify(result), "utf8");
+    if (size > this.maxResultBytes) {
+      throw new IdempotencyResultTooLargeError(
+        `Result for key ${key} is ${size} bytes which exceeds the ${this.maxResultBytes} byte limit`,
+      );
+    }
   }
 
   private resolveTtl(ttlSeconds: number | null | undefined): number | null {
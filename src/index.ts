@@ -2,29 +2,83 @@ export { IdempotencyManager } from "./idempotency-manager.js";
 export {
   IdempotencyError,
   IdempotencyCollisionError,
+  IdempotencyKeyMismatchError,
+  IdempotencyResultTooLargeError,
+  IdempotencyInProgressError,
+  IdempotencyLeaseLostError,
+  IdempotencyWaitTimeoutError,
+  IdempotencyFailedError,
   IdempotencySerializationError,
+  IdempotencyStoreUnavailableError,
 } from "./errors.js";
 export type {
+  CanonicalFormat,
+  CanonicalizationMode,
+  CompressionAlgorithm,
+  EncryptionKey,
+  FieldSelection,
   HashAlgorithm,
+  HashEncoding,
+  HmacKey,
+  IdempotencyEncryptedFields,
+  IdempotencyEvent,
+  IdempotencyEventType,
+  IdempotencyExpirySweeper,
+  IdempotencyExpirySweeperMetrics,
+  IdempotencyExpirySweeperOptions,
+  IdempotencyHeartbeat,
+  IdempotencyHeartbeatOptions,
+  IdempotencyInstrumentation,
+  IdempotencyKeyedRegisterOptions,
+  IdempotencyLease,
+  IdempotencyListedRecord,
+  IdempotencyListOptions,
   IdempotencyLookupResult,
   IdempotencyManagerOptions,
   IdempotencyRecord,
   IdempotencyRegisterOptions,
   IdempotencyRegistrationResult,
+  IdempotencyResult,
+  IdempotencyPurgeOptions,
+  IdempotencyResultBody,
+  IdempotencyRunErrorPolicy,
+  IdempotencyRunOptions,
+  IdempotencyRunResult,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStatus,
   IdempotencyStore,
+  IdempotencyStoreEntry,
   IdempotencyStoreValue,
   IdempotencyMetadata,
+  IdempotencyTransitionOptions,
+  IdempotencyWaitOptions,
   JsonPrimitive,
   JsonValue,
+  RecordCompressionOptions,
   MemcachedClientLike,
   PgClientLike,
   MySqlClientLike,
   MongoCollectionLike,
   SqliteDatabaseLike,
   DynamoDbClientLike,
+  DynamoDbKeysAndAttributes,
+  TypeSerializer,
 } from "./types.js";
 export { canonicalize, hashCanonicalValue } from "./utils.js";
+export type { CanonicalizeOptions, HashOptions } from "./utils.js";
 export { steadyKey } from "./steady-key.js";
+export { startExpirySweeper } from "./expiry-sweeper.js";
+export { InMemoryInstrumentation } from "./instrumentation/in-memory-instrumentation.js";
+export { createOpenTelemetryInstrumentation } from "./instrumentation/opentelemetry.js";
+export type {
+  OpenTelemetryAttributes,
+  OpenTelemetryInstrumentationOptions,
+  OpenTelemetryMeterLike,
+  OpenTelemetrySpanLike,
+  OpenTelemetryTracerLike,
+} from "./instrumentation/opentelemetry.js";
+export type { SteadyKeyOptions } from "./steady-key.js";
 export { RedisIdempotencyStore } from "./stores/redis-store.js";
 export { MemcachedIdempotencyStore } from "./stores/memcached-store.js";
 export { PostgresIdempotencyStore } from "./stores/postgres-store.js";
@@ -33,3 +87,31 @@ export { MongoIdempotencyStore } from "./stores/mongo-store.js";
 export { InMemoryIdempotencyStore } from "./stores/in-memory-store.js";
 export { SqliteIdempotencyStore } from "./stores/sqlite-store.js";
 export { DynamoDbIdempotencyStore } from "./stores/dynamodb-store.js";
+export { ResilientIdempotencyStore } from "./stores/resilient-store.js";
+export type {
+  ResilientStoreCircuitBreakerOptions,
+  ResilientStoreCircuitState,
+  ResilientStoreFailurePolicy,
+  ResilientStoreOperation,
+  ResilientStoreOptions,
+  ResilientStoreRetryOptions,
+} from "./stores/resilient-store.js";
+export { TieredIdempotencyStore } from "./stores/tiered-store.js";
+export type { TieredStoreOptions } from "./stores/tiered-store.js";
+export { ReplicatedIdempotencyStore } from "./stores/replicated-store.js";
+export type { ReplicatedStoreOperation, ReplicatedStoreOptions } from "./stores/replicated-store.js";
+export { ShardedIdempotencyStore } from "./stores/sharded-store.js";
+export type { ShardedStoreOptions, ShardedStoreShard, ShardedStoreShardHealth } from "./stores/sharded-store.js";
+export { HttpIdempotencyHandler } from "./middleware/http-idempotency.js";
+export type {
+  HttpIdempotencyDecision,
+  HttpIdempotencyOptions,
+  HttpRequestDetails,
+  HttpResponseDetails,
+} from "./middleware/http-idempotency.js";
+export { expressIdempotency } from "./middleware/express.js";
+export type { ExpressNextLike, ExpressRequestLike, ExpressResponseLike } from "./middleware/express.js";
+export { fastifyIdempotency } from "./middleware/fastify.js";
+export type { FastifyInstanceLike, FastifyReplyLike, FastifyRequestLike } from "./middleware/fastify.js";
+export { koaIdempotency } from "./middleware/koa.js";
+export type { KoaContextLike } from "./middleware/koa.js";
@@ -0,0 +1,22 @@
+import type { IdempotencyEvent, IdempotencyEventType, IdempotencyInstrumentation } from "../types.js";
+
+/** Collects events in memory, for tests and for inspecting a manager during development. */
+export class InMemoryInstrumentation implements IdempotencyInstrumentation {
+  private readonly collected: IdempotencyEvent[] = [];
+
+  onEvent(event: IdempotencyEvent): void {
+    this.collected.push(event);
+  }
+
+  get events(): readonly IdempotencyEvent[] {
+    return this.collected;
+  }
+
+  count(type: IdempotencyEventType): number {
+    return this.collected.filter((event) => event.type === type).length;
+  }
+
+  clear(): void {
+    this.collected.length = 0;
+  }
+}
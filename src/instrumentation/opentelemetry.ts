@@ -0,0 +1,96 @@
+import type { IdempotencyEvent, IdempotencyEventType, IdempotencyInstrumentation } from "../types.js";
+
+export type OpenTelemetryAttributes = Record<string, string | number | boolean>;
+
+export interface OpenTelemetrySpanLike {
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(endTime?: number | Date): void;
+}
+
+export interface OpenTelemetryTracerLike {
+  startSpan(
+    name: string,
+    options?: { startTime?: number | Date; attributes?: OpenTelemetryAttributes },
+  ): OpenTelemetrySpanLike;
+}
+
+export interface OpenTelemetryMeterLike {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { add(value: number, attributes?: OpenTelemetryAttributes): void };
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { record(value: number, attributes?: OpenTelemetryAttributes): void };
+}
+
+export interface OpenTelemetryInstrumentationOptions {
+  readonly tracer?: OpenTelemetryTracerLike;
+  readonly meter?: OpenTelemetryMeterLike;
+  /** Prefix of span, metric and attribute names. Defaults to `steadykey`. */
+  readonly namespace?: string;
+  /** Adds the store key to span attributes. Off by default because keys can be high-cardinality. */
+  readonly recordKeys?: boolean;
+}
+
+// Mirrors SpanStatusCode.ERROR from @opentelemetry/api without depending on it.
+const SPAN_STATUS_ERROR = 2;
+
+const OPERATIONS: Record<IdempotencyEventType, string> = {
+  register_stored: "register",
+  register_duplicate: "register",
+  collision: "register",
+  lookup_hit: "lookup",
+  lookup_miss: "lookup",
+  clear: "clear",
+  store_call: "store",
+  store_error: "store",
+};
+
+const isFailure = (type: IdempotencyEventType): boolean => type === "collision" || type === "store_error";
+
+/**
+ * Records each event as an OpenTelemetry span, backdated by the event's duration, and feeds an event
+ * counter and a duration histogram. Accepts any tracer and meter shaped like the `@opentelemetry/api` ones.
+ */
+export const createOpenTelemetryInstrumentation = (
+  options: OpenTelemetryInstrumentationOptions,
+): IdempotencyInstrumentation => {
+  const namespace = options.namespace ?? "steadykey";
+  const { tracer, meter } = options;
+  const counter = meter?.createCounter(`${namespace}.events`, { description: "Idempotency events by type" });
+  const histogram = meter?.createHistogram(`${namespace}.duration`, {
+    description: "Duration of idempotency operations",
+    unit: "ms",
+  });
+
+  return {
+    onEvent(event: IdempotencyEvent): void {
+      const attributes: OpenTelemetryAttributes = { [`${namespace}.event`]: event.type };
+      if (event.operation !== undefined) {
+        attributes[`${namespace}.store.operation`] = event.operation;
+      }
+      counter?.add(1, attributes);
+      histogram?.record(event.durationMs, attributes);
+
+      if (!tracer) {
+        return;
+      }
+      const spanAttributes =
+        options.recordKeys && event.key !== undefined ? { ...attributes, [`${namespace}.key`]: event.key } : attributes;
+      const endTime = Date.now();
+      const span = tracer.startSpan(`${namespace}.${OPERATIONS[event.type]}`, {
+        startTime: endTime - event.durationMs,
+        attributes: spanAttributes,
+      });
+      if (isFailure(event.type)) {
+        const error = event.error;
+        span.recordException(error instanceof Error ? error : String(error ?? event.type));
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : event.type });
+      }
+      span.end(endTime);
+    },
+  };
+};
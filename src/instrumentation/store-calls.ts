@@ -0,0 +1,57 @@
+import type { IdempotencyStore } from "../types.js";
+
+/** Receives every settled store call; `failed` is set and `error` holds the rejection when it failed. */
+export type StoreCallReporter = (
+  operation: string,
+  key: string | undefined,
+  durationMs: number,
+  failed: boolean,
+  error?: unknown,
+) => void;
+
+// `scan` is left out because it returns an iterator rather than a promise.
+const OPERATIONS = new Set<string>([
+  "setIfAbsent",
+  "get",
+  "update",
+  "delete",
+  "updateIfMatches",
+  "compareAndSet",
+  "touch",
+  "watch",
+  "setManyIfAbsent",
+  "getMany",
+  "deleteMany",
+  "purgeExpired",
+]);
+
+/**
+ * Wraps `store` so every call is reported with its duration once it settles, before the result or rejection
+ * reaches the caller. A proxy keeps optional methods optional: feature checks on the wrapper see exactly what
+ * `store` provides. Methods run against `store` itself, so calls they make internally are not reported.
+ */
+export const reportStoreCalls = (store: IdempotencyStore, report: StoreCallReporter): IdempotencyStore =>
+  new Proxy(store, {
+    get(target, property) {
+      const value: unknown = Reflect.get(target, property);
+      if (typeof value !== "function") {
+        return value;
+      }
+      if (typeof property !== "string" || !OPERATIONS.has(property)) {
+        return value.bind(target);
+      }
+      return async (...args: unknown[]) => {
+        const key = typeof args[0] === "string" ? args[0] : undefined;
+        const startedAt = Date.now();
+        let result: unknown;
+        try {
+          result = await value.apply(target, args);
+        } catch (error) {
+          report(property, key, Date.now() - startedAt, true, error);
+          throw error;
+        }
+        report(property, key, Date.now() - startedAt, false);
+        return result;
+      };
+    },
+  });
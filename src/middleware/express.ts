@@ -0,0 +1,107 @@
+import type { IdempotencyManager } from "../idempotency-manager.js";
+import { HttpIdempotencyHandler, firstHeader, normalizeHeaders } from "./http-idempotency.js";
+import type { HttpIdempotencyOptions, HttpResponseDetails } from "./http-idempotency.js";
+
+export interface ExpressRequestLike {
+  readonly method: string;
+  readonly originalUrl?: string;
+  readonly url?: string;
+  readonly headers: Record<string, string | string[] | undefined>;
+  readonly body?: unknown;
+}
+
+export interface ExpressResponseLike {
+  statusCode: number;
+  setHeader(name: string, value: string | string[]): unknown;
+  getHeaders(): Record<string, number | string | string[] | undefined>;
+  write(...args: unknown[]): boolean;
+  end(...args: unknown[]): unknown;
+  on(event: "finish" | "close", listener: () => void): unknown;
+}
+
+export type ExpressNextLike = (error?: unknown) => void;
+
+const toBuffer = (chunk: unknown, encoding?: unknown): Buffer | undefined => {
+  if (chunk === undefined || chunk === null || typeof chunk === "function") {
+    return undefined;
+  }
+  if (Buffer.isBuffer(chunk)) {
+    return chunk;
+  }
+  if (chunk instanceof Uint8Array) {
+    return Buffer.from(chunk);
+  }
+  return Buffer.from(String(chunk), typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8");
+};
+
+const send = (response: ExpressResponseLike, details: HttpResponseDetails): void => {
+  response.statusCode = details.statusCode;
+  for (const [name, value] of Object.entries(details.headers)) {
+    response.setHeader(name, value);
+  }
+  response.end(details.body);
+};
+
+/**
+ * Connect-style middleware for Express (and plain `http` servers). Register it after the body
+ * parser so the request body is part of the fingerprint.
+ */
+export const expressIdempotency = (manager: IdempotencyManager, options: HttpIdempotencyOptions = {}) => {
+  const handler = new HttpIdempotencyHandler(manager, options);
+
+  return (request: ExpressRequestLike, response: ExpressResponseLike, next: ExpressNextLike): void => {
+    handler
+      .begin({
+        method: request.method,
+        path: request.originalUrl ?? request.url ?? "/",
+        headerKey: firstHeader(request.headers[handler.header]),
+        body: request.body,
+      })
+      .then((decision) => {
+        if (decision.kind === "skip") {
+          next();
+          return;
+        }
+        if (decision.kind === "respond") {
+          send(response, decision.response);
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        const originalWrite = response.write;
+        const originalEnd = response.end;
+        response.write = function write(this: ExpressResponseLike, ...args: unknown[]): boolean {
+          const buffer = toBuffer(args[0], args[1]);
+          if (buffer) {
+            chunks.push(buffer);
+          }
+          return originalWrite.apply(this, args);
+        };
+        response.end = function end(this: ExpressResponseLike, ...args: unknown[]): unknown {
+          const buffer = toBuffer(args[0], args[1]);
+          if (buffer) {
+            chunks.push(buffer);
+          }
+          return originalEnd.apply(this, args);
+        };
+
+        let settled = false;
+        response.on("finish", () => {
+          settled = true;
+          const details = {
+            statusCode: response.statusCode,
+            headers: normalizeHeaders(response.getHeaders()),
+            body: Buffer.concat(chunks),
+          };
+          handler.complete(decision.id, details).catch(() => undefined);
+        });
+        response.on("close", () => {
+          if (!settled) {
+            handler.abandon(decision.id).catch(() => undefined);
+          }
+        });
+        next();
+      })
+      .catch(next);
+  };
+};
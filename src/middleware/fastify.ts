@@ -0,0 +1,106 @@
+import type { IdempotencyManager } from "../idempotency-manager.js";
+import { HttpIdempotencyHandler, firstHeader, normalizeHeaders } from "./http-idempotency.js";
+import type { HttpIdempotencyOptions } from "./http-idempotency.js";
+
+export interface FastifyRequestLike {
+  readonly method: string;
+  readonly url: string;
+  readonly headers: Record<string, string | string[] | undefined>;
+  readonly body?: unknown;
+  readonly log?: { error(details: unknown, message?: string): void };
+}
+
+export interface FastifyReplyLike {
+  readonly statusCode: number;
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string | string[]): FastifyReplyLike;
+  getHeaders(): Record<string, number | string | string[] | undefined>;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+export interface FastifyInstanceLike {
+  addHook(
+    name: "preHandler",
+    hook: (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>,
+  ): unknown;
+  addHook(
+    name: "onSend",
+    hook: (request: FastifyRequestLike, reply: FastifyReplyLike, payload: unknown) => Promise<unknown>,
+  ): unknown;
+  addHook(name: "onRequestAbort", hook: (request: FastifyRequestLike) => Promise<unknown>): unknown;
+}
+
+/**
+ * Fastify plugin. The plugin skips encapsulation (like `fastify-plugin`) so its hooks apply to every
+ * route registered on the instance. Keys of requests the client aborts are released, and failures to
+ * store a response are logged on the request since the response itself has already been produced.
+ */
+export const fastifyIdempotency = (manager: IdempotencyManager, options: HttpIdempotencyOptions = {}) => {
+  const handler = new HttpIdempotencyHandler(manager, options);
+  const pending = new WeakMap<FastifyRequestLike, string>();
+
+  const settle = async (request: FastifyRequestLike, outcome: Promise<void>): Promise<void> => {
+    try {
+      await outcome;
+    } catch (error) {
+      request.log?.error({ err: error }, "Failed to record the idempotent response");
+    }
+  };
+
+  const plugin = async (instance: FastifyInstanceLike): Promise<void> => {
+    instance.addHook("preHandler", async (request, reply) => {
+      const decision = await handler.begin({
+        method: request.method,
+        path: request.url,
+        headerKey: firstHeader(request.headers[handler.header]),
+        body: request.body,
+      });
+
+      if (decision.kind === "proceed") {
+        pending.set(request, decision.id);
+        return undefined;
+      }
+
+      if (decision.kind === "respond") {
+        reply.code(decision.response.statusCode);
+        for (const [name, value] of Object.entries(decision.response.headers)) {
+          reply.header(name, value);
+        }
+        return reply.send(decision.response.body);
+      }
+
+      return undefined;
+    });
+
+    instance.addHook("onSend", async (request, reply, payload) => {
+      const id = pending.get(request);
+      if (id === undefined) {
+        return payload;
+      }
+      pending.delete(request);
+
+      if (payload !== null && payload !== undefined && typeof payload !== "string" && !Buffer.isBuffer(payload)) {
+        // Streamed payloads cannot be replayed, so release the key instead.
+        await settle(request, handler.abandon(id));
+        return payload;
+      }
+
+      const headers = normalizeHeaders(reply.getHeaders());
+      const body = payload === null || payload === undefined ? Buffer.alloc(0) : Buffer.from(payload);
+      await settle(request, handler.complete(id, { statusCode: reply.statusCode, headers, body }));
+      return payload;
+    });
+
+    instance.addHook("onRequestAbort", async (request) => {
+      const id = pending.get(request);
+      if (id === undefined) {
+        return;
+      }
+      pending.delete(request);
+      await settle(request, handler.abandon(id));
+    });
+  };
+
+  Object.defineProperty(plugin, Symbol.for("skip-override"), { value: true });
+  return plugin;
+};
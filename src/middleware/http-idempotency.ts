@@ -0,0 +1,209 @@
+import { IdempotencyManager } from "../idempotency-manager.js";
+import { IdempotencyKeyMismatchError } from "../errors.js";
+import { steadyKey } from "../steady-key.js";
+import type { IdempotencyRegistrationResult, IdempotencyResult, JsonValue } from "../types.js";
+
+export interface HttpIdempotencyOptions {
+  readonly headerName?: string;
+  readonly methods?: readonly string[];
+  readonly requireKey?: boolean;
+  readonly ttlSeconds?: number | null;
+}
+
+export interface HttpRequestDetails {
+  readonly method: string;
+  readonly path: string;
+  readonly headerKey: string | undefined;
+  readonly body: unknown;
+}
+
+export interface HttpResponseDetails {
+  readonly statusCode: number;
+  readonly headers: Record<string, string | string[]>;
+  readonly body: Buffer;
+}
+
+export type HttpIdempotencyDecision =
+  | { readonly kind: "skip" }
+  | { readonly kind: "proceed"; readonly id: string }
+  | { readonly kind: "respond"; readonly response: HttpResponseDetails };
+
+const DEFAULT_HEADER_NAME = "idempotency-key";
+const DEFAULT_METHODS = ["POST", "PATCH"];
+const REPLAYED_HEADER = "idempotent-replayed";
+const EXCLUDED_HEADERS = new Set([
+  "connection",
+  "content-length",
+  "date",
+  "keep-alive",
+  "set-cookie",
+  "transfer-encoding",
+]);
+
+export const firstHeader = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+export const normalizeHeaders = (
+  headers: Record<string, number | string | string[] | undefined>,
+): Record<string, string | string[]> => {
+  const normalized: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      normalized[name] = typeof value === "number" ? String(value) : value;
+    }
+  }
+  return normalized;
+};
+
+const problem = (statusCode: number, title: string, detail: string): HttpResponseDetails => ({
+  statusCode,
+  headers: { "content-type": "application/problem+json" },
+  body: Buffer.from(JSON.stringify({ title, detail })),
+});
+
+const isJsonContentType = (headers: Record<string, string | string[]>): boolean => {
+  const contentType = headers["content-type"];
+  const value = Array.isArray(contentType) ? contentType[0] : contentType;
+  return typeof value === "string" && /[/+]json\b/i.test(value);
+};
+
+const toResult = (response: HttpResponseDetails): IdempotencyResult => {
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(response.headers)) {
+    const lowerName = name.toLowerCase();
+    if (!EXCLUDED_HEADERS.has(lowerName)) {
+      headers[lowerName] = value;
+    }
+  }
+
+  if (isJsonContentType(headers)) {
+    try {
+      const data = JSON.parse(response.body.toString("utf8")) as JsonValue;
+      return { statusCode: response.statusCode, headers, body: { encoding: "json", data } };
+    } catch {
+      // Fall through and keep the raw bytes when the body is not valid JSON.
+    }
+  }
+
+  return {
+    statusCode: response.statusCode,
+    headers,
+    body: { encoding: "base64", data: response.body.toString("base64") },
+  };
+};
+
+const fromResult = (result: IdempotencyResult): HttpResponseDetails => {
+  const body = result.body;
+  let payload = Buffer.alloc(0);
+  if (body?.encoding === "json") {
+    payload = Buffer.from(JSON.stringify(body.data));
+  } else if (body?.encoding === "base64") {
+    payload = Buffer.from(body.data, "base64");
+  }
+  return {
+    statusCode: result.statusCode ?? 200,
+    headers: { ...result.headers, [REPLAYED_HEADER]: "true" },
+    body: payload,
+  };
+};
+
+/**
+ * Framework-agnostic implementation of the IETF httpapi `Idempotency-Key` header flow. The
+ * Express, Fastify and Koa adapters translate their request and response objects into calls to
+ * {@link begin} before the route handler runs and {@link complete} once the response is known.
+ */
+export class HttpIdempotencyHandler {
+  private readonly headerName: string;
+  private readonly methods: ReadonlySet<string>;
+  private readonly requireKey: boolean;
+  private readonly ttlSeconds: number | null | undefined;
+
+  constructor(private readonly manager: IdempotencyManager, options: HttpIdempotencyOptions = {}) {
+    this.headerName = (options.headerName ?? DEFAULT_HEADER_NAME).toLowerCase();
+    this.methods = new Set((options.methods ?? DEFAULT_METHODS).map((method) => method.toUpperCase()));
+    this.requireKey = options.requireKey ?? false;
+    this.ttlSeconds = options.ttlSeconds;
+  }
+
+  public get header(): string {
+    return this.headerName;
+  }
+
+  public async begin(request: HttpRequestDetails): Promise<HttpIdempotencyDecision> {
+    const method = request.method.toUpperCase();
+    if (!this.methods.has(method)) {
+      return { kind: "skip" };
+    }
+
+    const headerKey = request.headerKey?.trim();
+    if (!headerKey && this.requireKey) {
+      return {
+        kind: "respond",
+        response: problem(
+          400,
+          "Idempotency-Key is missing",
+          `This operation requires the ${this.headerName} header`,
+        ),
+      };
+    }
+
+    const payload = { method, path: request.path, body: request.body ?? null };
+    let registration: IdempotencyRegistrationResult;
+    try {
+      registration = headerKey
+        ? await this.manager.registerWithKey(headerKey, payload, {
+            ttlSeconds: this.ttlSeconds,
+            // A key reused on another endpoint names a separate operation, not a conflicting one.
+            scope: steadyKey({ method, path: request.path }),
+          })
+        : await this.manager.register(payload, { ttlSeconds: this.ttlSeconds });
+    } catch (error) {
+      if (!(error instanceof IdempotencyKeyMismatchError)) {
+        throw error;
+      }
+      return {
+        kind: "respond",
+        response: problem(
+          422,
+          "Idempotency-Key is already used",
+          "The key was reused with a different request payload",
+        ),
+      };
+    }
+
+    if (registration.stored) {
+      return { kind: "proceed", id: registration.id };
+    }
+
+    const existing = registration.record;
+    if (existing.result) {
+      return { kind: "respond", response: fromResult(existing.result) };
+    }
+
+    return {
+      kind: "respond",
+      response: problem(409, "A request is outstanding for this Idempotency-Key", "Retry once it has completed"),
+    };
+  }
+
+  /**
+   * Stores the response for replay. Server errors, and responses that cannot be stored, release
+   * the key so the client can retry.
+   */
+  public async complete(id: string, response: HttpResponseDetails): Promise<void> {
+    if (response.statusCode >= 500) {
+      await this.abandon(id);
+      return;
+    }
+    try {
+      await this.manager.markCompleted(id, { result: toResult(response) });
+    } catch (error) {
+      await this.abandon(id);
+      throw error;
+    }
+  }
+
+  public async abandon(id: string): Promise<void> {
+    await this.manager.clear(id);
+  }
+}
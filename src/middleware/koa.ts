@@ -0,0 +1,79 @@
+import type { IdempotencyManager } from "../idempotency-manager.js";
+import { HttpIdempotencyHandler, normalizeHeaders } from "./http-idempotency.js";
+import type { HttpIdempotencyOptions } from "./http-idempotency.js";
+
+export interface KoaContextLike {
+  readonly method: string;
+  readonly originalUrl?: string;
+  readonly url: string;
+  readonly request: { readonly body?: unknown };
+  readonly response: { readonly headers: Record<string, number | string | string[] | undefined> };
+  status: number;
+  body: unknown;
+  get(field: string): string;
+  set(field: string, value: string | string[]): void;
+}
+
+const isStream = (body: unknown): boolean =>
+  typeof body === "object" && body !== null && typeof (body as { pipe?: unknown }).pipe === "function";
+
+const bodyToBuffer = (body: unknown): Buffer => {
+  if (body === undefined || body === null) {
+    return Buffer.alloc(0);
+  }
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (typeof body === "string") {
+    return Buffer.from(body);
+  }
+  return Buffer.from(JSON.stringify(body));
+};
+
+/**
+ * Koa middleware. Register it after the body parser so the request body is part of the fingerprint.
+ * Streamed response bodies cannot be replayed, so their keys are released once the response is sent.
+ */
+export const koaIdempotency = (manager: IdempotencyManager, options: HttpIdempotencyOptions = {}) => {
+  const handler = new HttpIdempotencyHandler(manager, options);
+
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>): Promise<void> => {
+    const decision = await handler.begin({
+      method: ctx.method,
+      path: ctx.originalUrl ?? ctx.url,
+      headerKey: ctx.get(handler.header) || undefined,
+      body: ctx.request.body,
+    });
+
+    if (decision.kind === "skip") {
+      await next();
+      return;
+    }
+
+    if (decision.kind === "respond") {
+      ctx.status = decision.response.statusCode;
+      for (const [name, value] of Object.entries(decision.response.headers)) {
+        ctx.set(name, value);
+      }
+      ctx.body = decision.response.body;
+      return;
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      await handler.abandon(decision.id).catch(() => undefined);
+      throw error;
+    }
+
+    if (isStream(ctx.body)) {
+      await handler.abandon(decision.id).catch(() => undefined);
+      return;
+    }
+
+    const headers = normalizeHeaders(ctx.response.headers);
+    await handler
+      .complete(decision.id, { statusCode: ctx.status, headers, body: bodyToBuffer(ctx.body) })
+      .catch(() => undefined);
+  };
+};
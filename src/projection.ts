@@ -0,0 +1,143 @@
+import { IdempotencyError } from "./errors.js";
+import type { FieldSelection } from "./types.js";
+import type { CanonicalJsonValue } from "./utils.js";
+
+const WILDCARD = "*";
+
+type FieldPath = readonly string[];
+
+export interface CompiledFieldSelection {
+  readonly include?: readonly FieldPath[];
+  readonly exclude?: readonly FieldPath[];
+}
+
+const unescapePointerSegment = (segment: string): string => segment.replace(/~1/g, "/").replace(/~0/g, "~");
+
+/**
+ * Parses a JSON pointer (`/items/0/sku`) or a dot path (`items.*.sku`, `items[*].sku`) into
+ * segments. `*` matches every array index or object key at that depth.
+ */
+export const parseFieldPath = (pattern: string): FieldPath => {
+  if (typeof pattern !== "string" || pattern.length === 0) {
+    throw new IdempotencyError("Field selection patterns must be non-empty strings");
+  }
+
+  if (pattern.startsWith("/")) {
+    return pattern.slice(1).split("/").map(unescapePointerSegment);
+  }
+
+  const segments: string[] = [];
+  for (const part of pattern.split(".")) {
+    const match = /^([^[\]]*)((?:\[[^[\]]*\])*)$/.exec(part);
+    if (!match) {
+      throw new IdempotencyError(`Invalid field selection pattern: ${pattern}`);
+    }
+    const [, name, brackets] = match;
+    if (name) {
+      segments.push(name);
+    }
+    for (const bracket of brackets.match(/\[[^[\]]*\]/g) ?? []) {
+      segments.push(bracket.slice(1, -1));
+    }
+    if (!name && !brackets) {
+      throw new IdempotencyError(`Invalid field selection pattern: ${pattern}`);
+    }
+  }
+  return segments;
+};
+
+export const compileFieldSelection = (selection: FieldSelection | undefined): CompiledFieldSelection | undefined => {
+  if (!selection || (!selection.include?.length && !selection.exclude?.length)) {
+    return undefined;
+  }
+  return {
+    include: selection.include?.length ? selection.include.map(parseFieldPath) : undefined,
+    exclude: selection.exclude?.length ? selection.exclude.map(parseFieldPath) : undefined,
+  };
+};
+
+const descend = (paths: readonly FieldPath[], segment: string): FieldPath[] =>
+  paths.filter((path) => path[0] === WILDCARD || path[0] === segment).map((path) => path.slice(1));
+
+const pick = (value: CanonicalJsonValue, paths: readonly FieldPath[]): CanonicalJsonValue | undefined => {
+  if (paths.some((path) => path.length === 0)) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    // Unselected elements become `null` so selected ones keep their index; trailing ones are dropped.
+    const picked: CanonicalJsonValue[] = [];
+    value.forEach((item, index) => {
+      const remaining = descend(paths, String(index));
+      const result = remaining.length > 0 ? pick(item, remaining) : undefined;
+      if (result !== undefined) {
+        picked.length = index;
+        picked.push(result);
+      }
+    });
+    return picked.length > 0 ? Array.from(picked, (item) => item ?? null) : undefined;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const picked: Record<string, CanonicalJsonValue> = {};
+    let matched = false;
+    for (const [key, entry] of Object.entries(value)) {
+      const remaining = descend(paths, key);
+      const result = remaining.length > 0 ? pick(entry, remaining) : undefined;
+      if (result !== undefined) {
+        picked[key] = result;
+        matched = true;
+      }
+    }
+    return matched ? picked : undefined;
+  }
+
+  return undefined;
+};
+
+const omit = (value: CanonicalJsonValue, paths: readonly FieldPath[]): CanonicalJsonValue | undefined => {
+  if (paths.some((path) => path.length === 0)) {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    const kept: CanonicalJsonValue[] = [];
+    value.forEach((item, index) => {
+      const remaining = descend(paths, String(index));
+      const result = remaining.length > 0 ? omit(item, remaining) : item;
+      if (result !== undefined) {
+        kept.push(result);
+      }
+    });
+    return kept;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const kept: Record<string, CanonicalJsonValue> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const remaining = descend(paths, key);
+      const result = remaining.length > 0 ? omit(entry, remaining) : entry;
+      if (result !== undefined) {
+        kept[key] = result;
+      }
+    }
+    return kept;
+  }
+
+  return value;
+};
+
+/**
+ * Applies include rules first and exclude rules second. A payload with no remaining fields
+ * projects to `null`.
+ */
+export const projectValue = (value: CanonicalJsonValue, selection: CompiledFieldSelection): CanonicalJsonValue => {
+  let projected: CanonicalJsonValue | undefined = value;
+  if (selection.include) {
+    projected = pick(projected, selection.include);
+  }
+  if (projected !== undefined && selection.exclude) {
+    projected = omit(projected, selection.exclude);
+  }
+  return projected === undefined ? null : projected;
+};
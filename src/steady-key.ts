@@ -1,12 +1,39 @@
-import { canonicalize, hashCanonicalValue } from "./utils.js";
-import type { HashAlgorithm } from "./types.js";
+import { canonicalize, formatId, hashCanonicalValue, validateHmacKeys } from "./utils.js";
+import type {
+  CanonicalizationMode,
+  FieldSelection,
+  HashAlgorithm,
+  HashEncoding,
+  HmacKey,
+  TypeSerializer,
+} from "./types.js";
 
 export interface SteadyKeyOptions {
   readonly hashAlgorithm?: HashAlgorithm;
+  readonly hashEncoding?: HashEncoding;
+  readonly truncateBytes?: number;
+  readonly fieldSelection?: FieldSelection;
+  readonly serializers?: readonly TypeSerializer[];
+  readonly canonicalization?: CanonicalizationMode;
+  readonly formatVersion?: number;
+  /** Computes the key as an HMAC with this secret instead of a plain digest. */
+  readonly hmacKey?: HmacKey;
 }
 
 export const steadyKey = (payload: unknown, options: SteadyKeyOptions = {}): string => {
-  const canonicalPayload = canonicalize(payload);
+  const canonicalPayload = canonicalize(payload, {
+    fieldSelection: options.fieldSelection,
+    serializers: options.serializers,
+    mode: options.canonicalization,
+  });
   const algorithm = options.hashAlgorithm ?? "sha256";
-  return hashCanonicalValue(canonicalPayload, algorithm);
+  if (options.hmacKey) {
+    validateHmacKeys([options.hmacKey]);
+  }
+  const hash = hashCanonicalValue(canonicalPayload, algorithm, {
+    hmacKey: options.hmacKey,
+    encoding: options.hashEncoding,
+    truncateBytes: options.truncateBytes,
+  });
+  return formatId(hash, options.formatVersion ?? 1);
 };
@@ -1,18 +1,42 @@
 import { IdempotencyError } from "../errors.js";
-import type { DynamoDbClientLike, IdempotencyStore, IdempotencyStoreValue } from "../types.js";
+import { initialVersion } from "./version.js";
+import type {
+  DynamoDbClientLike,
+  DynamoDbKeysAndAttributes,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+} from "../types.js";
 
 interface DynamoDbIdempotencyStoreOptions {
   readonly tableName: string;
   readonly partitionKey?: string;
   readonly valueAttribute?: string;
   readonly ttlAttribute?: string;
+  /** Numeric attribute, random on insert and incremented by every update, compared by `compareAndSet`. */
+  readonly versionAttribute?: string;
   readonly consistentRead?: boolean;
 }
 
+interface UpdateParts {
+  updateExpression: string;
+  expressionAttributeNames: Record<string, string>;
+  expressionAttributeValues: Record<string, unknown>;
+}
+
 const DEFAULT_PARTITION_KEY = "key";
 const DEFAULT_VALUE_ATTRIBUTE = "value";
 const DEFAULT_TTL_ATTRIBUTE = "expiresAt";
+const DEFAULT_VERSION_ATTRIBUTE = "version";
 const CONDITIONAL_CHECK_FAILED = "ConditionalCheckFailedException";
+const TRANSACTION_CANCELED = "TransactionCanceledException";
+// Raised, among other reasons, when a transaction exceeds DynamoDB's 4 MB request limit.
+const VALIDATION_ERROR = "ValidationException";
+// DynamoDB caps TransactWriteItems and BatchGetItem at 100 items per request.
+const MAX_BATCH_ITEMS = 100;
+const MAX_BATCH_GET_ATTEMPTS = 5;
 
 const epochSecondsFromTtl = (ttlSeconds: number | null): number | null => {
   if (typeof ttlSeconds === "number" && ttlSeconds > 0) {
@@ -32,12 +56,21 @@ const ttlFromEpochSeconds = (epochSeconds: number | null | undefined): number |
   return remaining;
 };
 
-const isConditionalCheckFailed = (error: unknown): boolean => {
+const errorName = (error: unknown): string | undefined => {
   if (!error || typeof error !== "object") {
-    return false;
+    return undefined;
   }
-  const name = (error as { name?: string; code?: string }).name ?? (error as { code?: string }).code;
-  return name === CONDITIONAL_CHECK_FAILED;
+  return (error as { name?: string; code?: string }).name ?? (error as { code?: string }).code;
+};
+
+const isConditionalCheckFailed = (error: unknown): boolean => errorName(error) === CONDITIONAL_CHECK_FAILED;
+
+const chunk = <T>(items: readonly T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += MAX_BATCH_ITEMS) {
+    chunks.push(items.slice(index, index + MAX_BATCH_ITEMS));
+  }
+  return chunks;
 };
 
 const wrapError = (message: string, error: unknown): IdempotencyError => {
@@ -49,10 +82,13 @@ const wrapError = (message: string, error: unknown): IdempotencyError => {
 };
 
 export class DynamoDbIdempotencyStore implements IdempotencyStore {
+  readonly scan?: IdempotencyStore["scan"];
+
   private readonly tableName: string;
   private readonly partitionKey: string;
   private readonly valueAttribute: string;
   private readonly ttlAttribute: string;
+  private readonly versionAttribute: string;
   private readonly consistentRead: boolean;
 
   constructor(private readonly client: DynamoDbClientLike, options: DynamoDbIdempotencyStoreOptions) {
@@ -67,28 +103,17 @@ export class DynamoDbIdempotencyStore implements IdempotencyStore {
     this.partitionKey = options.partitionKey ?? DEFAULT_PARTITION_KEY;
     this.valueAttribute = options.valueAttribute ?? DEFAULT_VALUE_ATTRIBUTE;
     this.ttlAttribute = options.ttlAttribute ?? DEFAULT_TTL_ATTRIBUTE;
+    this.versionAttribute = options.versionAttribute ?? DEFAULT_VERSION_ATTRIBUTE;
     this.consistentRead = options.consistentRead ?? false;
-  }
 
-  async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
-    const ttlEpoch = epochSecondsFromTtl(ttlSeconds);
-    const item: Record<string, unknown> = {
-      [this.partitionKey]: key,
-      [this.valueAttribute]: value,
-    };
-    if (ttlEpoch !== null) {
-      item[this.ttlAttribute] = ttlEpoch;
+    if (typeof client.scan === "function") {
+      this.scan = (prefix, scanOptions) => this.scanTable(prefix, scanOptions);
     }
+  }
 
+  async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
     try {
-      await this.client.put({
-        TableName: this.tableName,
-        Item: item,
-        ConditionExpression: "attribute_not_exists(#pk)",
-        ExpressionAttributeNames: {
-          "#pk": this.partitionKey,
-        },
-      });
+      await this.client.put(this.buildInsert(key, value, ttlSeconds));
       return true;
     } catch (error) {
       if (isConditionalCheckFailed(error)) {
@@ -98,6 +123,52 @@ export class DynamoDbIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  /**
+   * Inserts each chunk in a single transaction. A transaction is cancelled as a whole when any key
+   * already exists, so cancelled chunks are retried key by key to learn which entries were fresh.
+   * Chunks rejected as invalid, typically for exceeding the 4 MB transaction limit, are split in half
+   * until they fit. Clients without `transactWrite` insert key by key from the start.
+   */
+  async setManyIfAbsent(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    const results: boolean[] = [];
+    for (const batch of chunk(entries)) {
+      results.push(...(await this.insertBatch(batch)));
+    }
+    return results;
+  }
+
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    if (typeof this.client.batchGet !== "function") {
+      return Promise.all(keys.map((key) => this.get(key)));
+    }
+    const items = new Map<string, Record<string, unknown>>();
+    for (const batch of chunk(Array.from(new Set(keys)))) {
+      let request: DynamoDbKeysAndAttributes | undefined = {
+        Keys: batch.map((key) => ({ [this.partitionKey]: key })),
+        ConsistentRead: this.consistentRead,
+      };
+      for (let attempt = 0; request && request.Keys.length > 0; attempt += 1) {
+        if (attempt === MAX_BATCH_GET_ATTEMPTS) {
+          throw new IdempotencyError("DynamoDB left keys unprocessed after repeated batch get attempts");
+        }
+        const response = await this.client.batchGet({ RequestItems: { [this.tableName]: request } });
+        for (const item of response?.Responses?.[this.tableName] ?? []) {
+          items.set(String(item[this.partitionKey]), item);
+        }
+        request = response?.UnprocessedKeys?.[this.tableName];
+      }
+    }
+
+    const values = keys.map((key) => {
+      const item = items.get(key);
+      return item ? this.toStoreValue(key, item) : null;
+    });
+    // DynamoDB's TTL sweeper can take days, and until then the item still blocks conditional inserts.
+    const expired = new Set(keys.filter((_, index) => values[index]?.ttlSeconds === 0));
+    await Promise.all(Array.from(expired, (key) => this.deleteExpired(key)));
+    return values.map((stored) => (stored?.ttlSeconds === 0 ? null : stored));
+  }
+
   async get(key: string): Promise<IdempotencyStoreValue | null> {
     const response = await this.client.get({
       TableName: this.tableName,
@@ -112,56 +183,117 @@ export class DynamoDbIdempotencyStore implements IdempotencyStore {
       return null;
     }
 
-    const rawValue = item[this.valueAttribute];
-    if (typeof rawValue !== "string") {
-      throw new IdempotencyError(`Stored value for key ${key} in DynamoDB must be a string`);
+    const stored = this.toStoreValue(key, item);
+    if (stored.ttlSeconds === 0) {
+      await this.deleteExpired(key);
+      return null;
     }
 
-    const ttlEpochRaw = item[this.ttlAttribute];
-    if (ttlEpochRaw !== undefined && ttlEpochRaw !== null && typeof ttlEpochRaw !== "number") {
-      throw new IdempotencyError(`TTL attribute for key ${key} in DynamoDB must be a number when present`);
-    }
+    return stored;
+  }
+
+  async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
+    const { updateExpression, expressionAttributeNames, expressionAttributeValues } = this.buildUpdate(
+      value,
+      ttlSeconds,
+    );
+    expressionAttributeNames["#pk"] = this.partitionKey;
 
-    const ttlSeconds = ttlFromEpochSeconds(ttlEpochRaw ?? null);
-    if (ttlSeconds === 0) {
-      try {
-        await this.client.delete({
-          TableName: this.tableName,
-          Key: {
-            [this.partitionKey]: key,
-          },
-        });
-      } catch {
-        // Best-effort clean up; ignore failures because the record is already expired logically.
+    try {
+      await this.client.update({
+        TableName: this.tableName,
+        Key: {
+          [this.partitionKey]: key,
+        },
+        UpdateExpression: updateExpression,
+        ConditionExpression: "attribute_exists(#pk)",
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+      });
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        throw new IdempotencyError(`Failed to update key ${key} in DynamoDB store: key does not exist`);
       }
-      return null;
+      throw wrapError(`Failed to update key ${key} in DynamoDB store`, error);
     }
+  }
 
-    return {
-      value: rawValue,
+  async updateIfMatches(
+    key: string,
+    expectedValue: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    const { updateExpression, expressionAttributeNames, expressionAttributeValues } = this.buildUpdate(
+      value,
       ttlSeconds,
-    };
+    );
+    expressionAttributeValues[":expected"] = expectedValue;
+    expressionAttributeValues[":now"] = Math.floor(Date.now() / 1000);
+
+    try {
+      await this.client.update({
+        TableName: this.tableName,
+        Key: {
+          [this.partitionKey]: key,
+        },
+        UpdateExpression: updateExpression,
+        ConditionExpression: "#value = :expected AND (attribute_not_exists(#ttl) OR #ttl > :now)",
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+      });
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw wrapError(`Failed to conditionally update key ${key} in DynamoDB store`, error);
+    }
   }
 
-  async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
-    const ttlEpoch = epochSecondsFromTtl(ttlSeconds);
+  async compareAndSet(
+    key: string,
+    expectedVersion: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    const { updateExpression, expressionAttributeNames, expressionAttributeValues } = this.buildUpdate(
+      value,
+      ttlSeconds,
+    );
+    expressionAttributeValues[":version"] = Number(expectedVersion);
+    expressionAttributeValues[":now"] = Math.floor(Date.now() / 1000);
+    // Items inserted before versions were tracked have no version attribute, which reads as version 0.
+    const versionCondition =
+      expectedVersion === "0" ? "(attribute_not_exists(#version) OR #version = :version)" : "#version = :version";
 
-    let updateExpression = "SET #value = :value";
-    const expressionAttributeNames: Record<string, string> = {
-      "#value": this.valueAttribute,
-      "#pk": this.partitionKey,
-    };
-    const expressionAttributeValues: Record<string, unknown> = {
-      ":value": value,
-    };
+    try {
+      await this.client.update({
+        TableName: this.tableName,
+        Key: {
+          [this.partitionKey]: key,
+        },
+        UpdateExpression: updateExpression,
+        ConditionExpression: `${versionCondition} AND (attribute_not_exists(#ttl) OR #ttl > :now)`,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+      });
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw wrapError(`Failed to compare-and-set key ${key} in DynamoDB store`, error);
+    }
+  }
 
+  async touch(key: string, ttlSeconds: number | null): Promise<boolean> {
+    const ttlEpoch = epochSecondsFromTtl(ttlSeconds);
+    const expressionAttributeValues: Record<string, unknown> = { ":one": 1, ":now": Math.floor(Date.now() / 1000) };
+    let updateExpression = "REMOVE #ttl";
     if (ttlEpoch !== null) {
-      expressionAttributeNames["#ttl"] = this.ttlAttribute;
       expressionAttributeValues[":ttl"] = ttlEpoch;
-      updateExpression += ", #ttl = :ttl";
-    } else {
-      expressionAttributeNames["#ttl"] = this.ttlAttribute;
-      updateExpression += " REMOVE #ttl";
+      updateExpression = "SET #ttl = :ttl";
     }
 
     try {
@@ -170,16 +302,21 @@ export class DynamoDbIdempotencyStore implements IdempotencyStore {
         Key: {
           [this.partitionKey]: key,
         },
-        UpdateExpression: updateExpression,
-        ConditionExpression: "attribute_exists(#pk)",
-        ExpressionAttributeNames: expressionAttributeNames,
+        UpdateExpression: `${updateExpression} ADD #version :one`,
+        ConditionExpression: "attribute_exists(#pk) AND (attribute_not_exists(#ttl) OR #ttl > :now)",
+        ExpressionAttributeNames: {
+          "#pk": this.partitionKey,
+          "#ttl": this.ttlAttribute,
+          "#version": this.versionAttribute,
+        },
         ExpressionAttributeValues: expressionAttributeValues,
       });
+      return true;
     } catch (error) {
       if (isConditionalCheckFailed(error)) {
-        throw new IdempotencyError(`Failed to update key ${key} in DynamoDB store: key does not exist`);
+        return false;
       }
-      throw wrapError(`Failed to update key ${key} in DynamoDB store`, error);
+      throw wrapError(`Failed to refresh TTL for key ${key} in DynamoDB store`, error);
     }
   }
 
@@ -193,4 +330,148 @@ export class DynamoDbIdempotencyStore implements IdempotencyStore {
     });
     return Boolean(response?.Attributes);
   }
+
+  /**
+   * Scans the table with a `begins_with` filter. DynamoDB filters after reading, so sparse prefixes
+   * still read the whole table; keep heavy scans off the request path.
+   */
+  private async *scanTable(
+    prefix: string,
+    options: IdempotencyScanOptions = {},
+  ): AsyncGenerator<IdempotencyScanEntry> {
+    let exclusiveStartKey: Record<string, unknown> | undefined =
+      options.cursor === undefined ? undefined : { [this.partitionKey]: options.cursor };
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    do {
+      const response = await this.client.scan!({
+        TableName: this.tableName,
+        FilterExpression: "begins_with(#pk, :prefix)",
+        ExpressionAttributeNames: { "#pk": this.partitionKey },
+        ExpressionAttributeValues: { ":prefix": prefix },
+        ExclusiveStartKey: exclusiveStartKey,
+        ConsistentRead: this.consistentRead,
+      });
+      for (const item of response?.Items ?? []) {
+        if (remaining <= 0) {
+          return;
+        }
+        const key = String(item[this.partitionKey]);
+        const stored = this.toStoreValue(key, item);
+        if (stored.ttlSeconds !== 0) {
+          remaining -= 1;
+          yield { key, ...stored, cursor: key };
+        }
+      }
+      exclusiveStartKey = response?.LastEvaluatedKey;
+    } while (exclusiveStartKey && remaining > 0);
+  }
+
+  private async insertBatch(batch: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    const insertEach = async (): Promise<boolean[]> => {
+      const results: boolean[] = [];
+      for (const { key, value, ttlSeconds } of batch) {
+        results.push(await this.setIfAbsent(key, value, ttlSeconds));
+      }
+      return results;
+    };
+    if (typeof this.client.transactWrite !== "function") {
+      return insertEach();
+    }
+
+    try {
+      await this.client.transactWrite({
+        TransactItems: batch.map(({ key, value, ttlSeconds }) => ({ Put: this.buildInsert(key, value, ttlSeconds) })),
+      });
+      return batch.map(() => true);
+    } catch (error) {
+      const name = errorName(error);
+      if (name === TRANSACTION_CANCELED) {
+        return insertEach();
+      }
+      if (name === VALIDATION_ERROR && batch.length > 1) {
+        const middle = Math.ceil(batch.length / 2);
+        return [...(await this.insertBatch(batch.slice(0, middle))), ...(await this.insertBatch(batch.slice(middle)))];
+      }
+      throw wrapError("Failed to persist keys in DynamoDB store", error);
+    }
+  }
+
+  private async deleteExpired(key: string): Promise<void> {
+    try {
+      await this.client.delete({
+        TableName: this.tableName,
+        Key: {
+          [this.partitionKey]: key,
+        },
+      });
+    } catch {
+      // Best-effort clean up; ignore failures because the record is already expired logically.
+    }
+  }
+
+  private buildInsert(
+    key: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Parameters<DynamoDbClientLike["put"]>[0] {
+    const ttlEpoch = epochSecondsFromTtl(ttlSeconds);
+    const item: Record<string, unknown> = {
+      [this.partitionKey]: key,
+      [this.valueAttribute]: value,
+      [this.versionAttribute]: initialVersion(),
+    };
+    if (ttlEpoch !== null) {
+      item[this.ttlAttribute] = ttlEpoch;
+    }
+
+    return {
+      TableName: this.tableName,
+      Item: item,
+      ConditionExpression: "attribute_not_exists(#pk)",
+      ExpressionAttributeNames: {
+        "#pk": this.partitionKey,
+      },
+    };
+  }
+
+  private toStoreValue(key: string, item: Record<string, unknown>): IdempotencyStoreValue {
+    const rawValue = item[this.valueAttribute];
+    if (typeof rawValue !== "string") {
+      throw new IdempotencyError(`Stored value for key ${key} in DynamoDB must be a string`);
+    }
+
+    const ttlEpochRaw = item[this.ttlAttribute];
+    if (ttlEpochRaw !== undefined && ttlEpochRaw !== null && typeof ttlEpochRaw !== "number") {
+      throw new IdempotencyError(`TTL attribute for key ${key} in DynamoDB must be a number when present`);
+    }
+
+    const versionRaw = item[this.versionAttribute];
+    const version = typeof versionRaw === "number" ? versionRaw : 0;
+    return { value: rawValue, ttlSeconds: ttlFromEpochSeconds(ttlEpochRaw ?? null), version: String(version) };
+  }
+
+  private buildUpdate(value: string, ttlSeconds: number | null): UpdateParts {
+    const ttlEpoch = epochSecondsFromTtl(ttlSeconds);
+
+    let updateExpression = "SET #value = :value";
+    const expressionAttributeNames: Record<string, string> = {
+      "#value": this.valueAttribute,
+      "#ttl": this.ttlAttribute,
+      "#version": this.versionAttribute,
+    };
+    const expressionAttributeValues: Record<string, unknown> = {
+      ":value": value,
+      ":one": 1,
+    };
+
+    if (ttlEpoch !== null) {
+      expressionAttributeValues[":ttl"] = ttlEpoch;
+      updateExpression += ", #ttl = :ttl";
+    } else {
+      updateExpression += " REMOVE #ttl";
+    }
+    updateExpression += " ADD #version :one";
+
+    return { updateExpression, expressionAttributeNames, expressionAttributeValues };
+  }
 }
@@ -1,12 +1,25 @@
-import type { IdempotencyStore, IdempotencyStoreValue } from "../types.js";
+import { IdempotencyError } from "../errors.js";
+import type {
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+} from "../types.js";
 
 interface Entry {
   value: string;
   expiresAt: number | null;
+  version: number;
 }
 
 interface InMemoryStoreOptions {
   readonly now?: () => number;
+  /**
+   * Bounds the number of entries. Expired entries among the least recently used ones are dropped first,
+   * then the least recently used live entry is evicted to make room.
+   */
+  readonly maxEntries?: number;
 }
 
 const toExpiryEpoch = (ttlSeconds: number | null, nowMs: number): number | null => {
@@ -16,13 +29,25 @@ const toExpiryEpoch = (ttlSeconds: number | null, nowMs: number): number | null
   return null;
 };
 
+// How many of the least recently used entries are checked for expiry before a live entry is evicted.
+const EXPIRED_EVICTION_WINDOW = 32;
+
 export class InMemoryIdempotencyStore implements IdempotencyStore {
   private readonly store = new Map<string, Entry>();
+  private readonly watchers = new Map<string, Set<() => void>>();
   private readonly nowBase: () => number;
+  private readonly maxEntries: number | null;
   private timeOffset = 0;
+  // Shared by all keys and never reset, so a key deleted and created again does not repeat a version.
+  private lastVersion = 0;
 
   constructor(options: InMemoryStoreOptions = {}) {
     this.nowBase = options.now ?? (() => Date.now());
+    const { maxEntries } = options;
+    if (maxEntries !== undefined && (!Number.isInteger(maxEntries) || maxEntries <= 0)) {
+      throw new IdempotencyError("maxEntries must be a positive integer when provided");
+    }
+    this.maxEntries = maxEntries ?? null;
   }
 
   async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
@@ -34,7 +59,10 @@ export class InMemoryIdempotencyStore implements IdempotencyStore {
     this.store.set(key, {
       value,
       expiresAt: toExpiryEpoch(ttlSeconds, nowMs),
+      version: this.nextVersion(),
     });
+    this.evictOverflow();
+    this.notify(key);
     return true;
   }
 
@@ -44,27 +72,130 @@ export class InMemoryIdempotencyStore implements IdempotencyStore {
     if (!entry) {
       return null;
     }
+    this.markUsed(key, entry);
     return {
       value: entry.value,
       ttlSeconds:
         entry.expiresAt === null ? null : Math.max(0, Math.floor((entry.expiresAt - this.currentTime()) / 1000)),
+      version: String(entry.version),
     };
   }
 
   async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
     this.evictIfExpired(key);
-    if (!this.store.has(key)) {
+    const entry = this.store.get(key);
+    if (!entry) {
       throw new Error(`Key ${key} does not exist in InMemoryIdempotencyStore`);
     }
-    const nowMs = this.currentTime();
-    this.store.set(key, {
-      value,
-      expiresAt: toExpiryEpoch(ttlSeconds, nowMs),
-    });
+    this.write(key, value, ttlSeconds);
+  }
+
+  async updateIfMatches(
+    key: string,
+    expectedValue: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    this.evictIfExpired(key);
+    const entry = this.store.get(key);
+    if (!entry || entry.value !== expectedValue) {
+      return false;
+    }
+    this.write(key, value, ttlSeconds);
+    return true;
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    this.evictIfExpired(key);
+    const entry = this.store.get(key);
+    if (!entry || String(entry.version) !== expectedVersion) {
+      return false;
+    }
+    this.write(key, value, ttlSeconds);
+    return true;
+  }
+
+  async touch(key: string, ttlSeconds: number | null): Promise<boolean> {
+    this.evictIfExpired(key);
+    const entry = this.store.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.write(key, entry.value, ttlSeconds);
+    return true;
   }
 
   async delete(key: string): Promise<boolean> {
-    return this.store.delete(key);
+    const deleted = this.store.delete(key);
+    if (deleted) {
+      this.notify(key);
+    }
+    return deleted;
+  }
+
+  async setManyIfAbsent(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    const results: boolean[] = [];
+    for (const { key, value, ttlSeconds } of entries) {
+      results.push(await this.setIfAbsent(key, value, ttlSeconds));
+    }
+    return results;
+  }
+
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async deleteMany(keys: readonly string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (await this.delete(key)) {
+        deleted += 1;
+      }
+    }
+    return deleted;
+  }
+
+  async *scan(prefix: string, options: IdempotencyScanOptions = {}): AsyncGenerator<IdempotencyScanEntry> {
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    const keys = Array.from(this.store.keys())
+      .filter((key) => key.startsWith(prefix) && (options.cursor === undefined || key > options.cursor))
+      .sort();
+    for (const key of keys) {
+      if (remaining <= 0) {
+        return;
+      }
+      const stored = await this.get(key);
+      if (stored) {
+        remaining -= 1;
+        yield { key, ...stored, cursor: key };
+      }
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const before = this.store.size;
+    this.purgeExpiredEntries();
+    return before - this.store.size;
+  }
+
+  async watch(key: string, onChange: () => void): Promise<() => Promise<void>> {
+    let listeners = this.watchers.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.watchers.set(key, listeners);
+    }
+    listeners.add(onChange);
+    return async () => {
+      listeners.delete(onChange);
+      if (listeners.size === 0) {
+        this.watchers.delete(key);
+      }
+    };
   }
 
   advanceTime(milliseconds: number): void {
@@ -75,6 +206,56 @@ export class InMemoryIdempotencyStore implements IdempotencyStore {
     this.purgeExpiredEntries();
   }
 
+  private write(key: string, value: string, ttlSeconds: number | null): void {
+    this.store.delete(key);
+    this.store.set(key, {
+      value,
+      expiresAt: toExpiryEpoch(ttlSeconds, this.currentTime()),
+      version: this.nextVersion(),
+    });
+    this.notify(key);
+  }
+
+  private nextVersion(): number {
+    this.lastVersion += 1;
+    return this.lastVersion;
+  }
+
+  // Map iteration follows insertion order, so re-inserting on use keeps the least recently used entry first.
+  private markUsed(key: string, entry: Entry): void {
+    if (this.maxEntries !== null) {
+      this.store.delete(key);
+      this.store.set(key, entry);
+    }
+  }
+
+  // Only looks at the least recently used entries; full expiry sweeps are left to `purgeExpired`.
+  private evictOverflow(): void {
+    if (this.maxEntries === null || this.store.size <= this.maxEntries) {
+      return;
+    }
+    const now = this.currentTime();
+    let inspected = 0;
+    for (const [key, entry] of this.store) {
+      if (this.store.size <= this.maxEntries || inspected === EXPIRED_EVICTION_WINDOW) {
+        break;
+      }
+      inspected += 1;
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        this.store.delete(key);
+      }
+    }
+    for (const [key, entry] of this.store) {
+      if (this.store.size <= this.maxEntries) {
+        return;
+      }
+      this.store.delete(key);
+      if (entry.expiresAt === null || entry.expiresAt > now) {
+        this.notify(key);
+      }
+    }
+  }
+
   private evictIfExpired(key: string): void {
     const entry = this.store.get(key);
     if (!entry) {
@@ -85,6 +266,16 @@ export class InMemoryIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  private notify(key: string): void {
+    const listeners = this.watchers.get(key);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of Array.from(listeners)) {
+      listener();
+    }
+  }
+
   private currentTime(): number {
     return this.nowBase() + this.timeOffset;
   }
@@ -52,6 +52,22 @@ export class MemcachedIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  /** Falls back to rewriting the value when the client does not expose `touch`. */
+  async touch(key: string, ttlSeconds: number | null): Promise<boolean> {
+    const lifetime = lifetimeFromTtl(ttlSeconds);
+    const { client } = this;
+    if (typeof client.touch === "function") {
+      const success = await wrap<boolean>((callback) => client.touch!(key, lifetime, callback));
+      return Boolean(success);
+    }
+    const stored = await this.get(key);
+    if (!stored) {
+      return false;
+    }
+    await this.update(key, stored.value, ttlSeconds);
+    return true;
+  }
+
   async delete(key: string): Promise<boolean> {
     const success = await wrap<boolean | string>((callback) => this.client.del(key, callback));
     return Boolean(success);
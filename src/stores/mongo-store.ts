@@ -1,16 +1,32 @@
 import { IdempotencyError } from "../errors.js";
-import type { IdempotencyStore, IdempotencyStoreValue, MongoCollectionLike } from "../types.js";
+import { purgeInBatches } from "./purge.js";
+import { initialVersion } from "./version.js";
+import type {
+  IdempotencyPurgeOptions,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+  MongoCollectionLike,
+} from "../types.js";
 
 interface MongoStoreDocument {
   _id: string;
   value: string;
   expiresAt?: Date | null;
+  /** Random on insert and incremented by every update. Documents written before versions existed lack it. */
+  version?: number;
 }
 
 interface MongoStoreOptions {
   readonly ensureIndexes?: boolean;
 }
 
+const SCAN_PAGE_SIZE = 100;
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
 const ttlFromDate = (expiresAt?: Date | null): number | null => {
   if (!expiresAt) {
     return null;
@@ -19,6 +35,18 @@ const ttlFromDate = (expiresAt?: Date | null): number | null => {
   return diff > 0 ? diff : 0;
 };
 
+const toStoreValue = (document: MongoStoreDocument): IdempotencyStoreValue => ({
+  value: document.value,
+  ttlSeconds: ttlFromDate(document.expiresAt),
+  version: String(document.version ?? 0),
+});
+
+// Documents inserted before versions were tracked carry no version field at all.
+const versionFilter = (expectedVersion: string): unknown => {
+  const version = Number(expectedVersion);
+  return version === 0 ? { $in: [0, null] } : version;
+};
+
 const isDuplicateKeyError = (error: unknown): boolean => {
   if (!error || typeof error !== "object") {
     return false;
@@ -27,7 +55,26 @@ const isDuplicateKeyError = (error: unknown): boolean => {
   return mongoCode === 11000;
 };
 
+const expiresAtFromTtl = (ttlSeconds: number | null): Date | null =>
+  typeof ttlSeconds === "number" && ttlSeconds > 0 ? new Date(Date.now() + ttlSeconds * 1000) : null;
+
+/** Indexes of the documents an unordered bulk insert rejected, or `null` when it failed for another reason. */
+const duplicateIndexes = (error: unknown): Set<number> | null => {
+  if (!error || typeof error !== "object") {
+    return null;
+  }
+  const raw = (error as { writeErrors?: unknown }).writeErrors;
+  const writeErrors = (Array.isArray(raw) ? raw : raw ? [raw] : []) as { index: number; code?: number }[];
+  if (writeErrors.length === 0 || !writeErrors.every(isDuplicateKeyError)) {
+    return null;
+  }
+  return new Set(writeErrors.map((writeError) => writeError.index));
+};
+
 export class MongoIdempotencyStore implements IdempotencyStore {
+  readonly scan?: IdempotencyStore["scan"];
+  readonly purgeExpired?: IdempotencyStore["purgeExpired"];
+
   private readonly ready: Promise<void>;
 
   constructor(private readonly collection: MongoCollectionLike<MongoStoreDocument>, options: MongoStoreOptions = {}) {
@@ -42,13 +89,25 @@ export class MongoIdempotencyStore implements IdempotencyStore {
         .then(() => undefined)
         .catch(() => undefined);
     }
+
+    if (typeof collection.find === "function") {
+      this.scan = (prefix, scanOptions) => this.scanIds(prefix, scanOptions);
+      if (typeof collection.deleteMany === "function") {
+        this.purgeExpired = (purgeOptions) => this.removeExpired(purgeOptions);
+      }
+    }
   }
 
   async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
     await this.ready;
-    const expiresAt = typeof ttlSeconds === "number" && ttlSeconds > 0 ? new Date(Date.now() + ttlSeconds * 1000) : null;
+    const expiresAt = expiresAtFromTtl(ttlSeconds);
     try {
-      await this.collection.insertOne({ _id: key, value, expiresAt: expiresAt ?? undefined });
+      await this.collection.insertOne({
+        _id: key,
+        value,
+        expiresAt: expiresAt ?? undefined,
+        version: initialVersion(),
+      });
       return true;
     } catch (error) {
       if (isDuplicateKeyError(error)) {
@@ -58,6 +117,33 @@ export class MongoIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  async setManyIfAbsent(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    await this.ready;
+    if (typeof this.collection.insertMany !== "function") {
+      const results: boolean[] = [];
+      for (const { key, value, ttlSeconds } of entries) {
+        results.push(await this.setIfAbsent(key, value, ttlSeconds));
+      }
+      return results;
+    }
+    const documents = entries.map(({ key, value, ttlSeconds }) => ({
+      _id: key,
+      value,
+      expiresAt: expiresAtFromTtl(ttlSeconds) ?? undefined,
+      version: initialVersion(),
+    }));
+    try {
+      await this.collection.insertMany(documents, { ordered: false });
+      return entries.map(() => true);
+    } catch (error) {
+      const rejected = duplicateIndexes(error);
+      if (!rejected) {
+        throw error;
+      }
+      return entries.map((_, index) => !rejected.has(index));
+    }
+  }
+
   async get(key: string): Promise<IdempotencyStoreValue | null> {
     await this.ready;
     const document = await this.collection.findOne({ _id: key });
@@ -70,15 +156,29 @@ export class MongoIdempotencyStore implements IdempotencyStore {
       return null;
     }
 
-    return {
-      value: document.value,
-      ttlSeconds: ttlFromDate(document.expiresAt),
-    };
+    return toStoreValue(document);
+  }
+
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    await this.ready;
+    if (typeof this.collection.find !== "function") {
+      return Promise.all(keys.map((key) => this.get(key)));
+    }
+    const documents = await this.collection.find({ _id: { $in: [...keys] } }).toArray();
+    const now = Date.now();
+    const found = new Map(documents.map((document) => [document._id, document]));
+    return keys.map((key) => {
+      const document = found.get(key);
+      if (!document || (document.expiresAt && document.expiresAt.getTime() <= now)) {
+        return null;
+      }
+      return toStoreValue(document);
+    });
   }
 
   async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
     await this.ready;
-    const expiresAt = typeof ttlSeconds === "number" && ttlSeconds > 0 ? new Date(Date.now() + ttlSeconds * 1000) : null;
+    const expiresAt = expiresAtFromTtl(ttlSeconds);
     const updateResult = await this.collection.updateOne(
       { _id: key },
       {
@@ -86,6 +186,7 @@ export class MongoIdempotencyStore implements IdempotencyStore {
           value,
           expiresAt: expiresAt ?? null,
         },
+        $inc: { version: 1 },
       },
     );
 
@@ -94,9 +195,124 @@ export class MongoIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  async updateIfMatches(
+    key: string,
+    expectedValue: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = expiresAtFromTtl(ttlSeconds);
+    const updateResult = await this.collection.updateOne(
+      {
+        _id: key,
+        value: expectedValue,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+      },
+      {
+        $set: {
+          value,
+          expiresAt: expiresAt ?? null,
+        },
+        $inc: { version: 1 },
+      },
+    );
+    return Boolean(updateResult && updateResult.matchedCount > 0);
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = expiresAtFromTtl(ttlSeconds);
+    const updateResult = await this.collection.updateOne(
+      {
+        _id: key,
+        version: versionFilter(expectedVersion),
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+      },
+      {
+        $set: {
+          value,
+          expiresAt: expiresAt ?? null,
+        },
+        $inc: { version: 1 },
+      },
+    );
+    return Boolean(updateResult && updateResult.matchedCount > 0);
+  }
+
+  async touch(key: string, ttlSeconds: number | null): Promise<boolean> {
+    await this.ready;
+    const updateResult = await this.collection.updateOne(
+      { _id: key, $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] },
+      { $set: { expiresAt: expiresAtFromTtl(ttlSeconds) }, $inc: { version: 1 } },
+    );
+    return Boolean(updateResult && updateResult.matchedCount > 0);
+  }
+
   async delete(key: string): Promise<boolean> {
     await this.ready;
     const result = await this.collection.deleteOne({ _id: key });
     return Boolean(result.deletedCount && result.deletedCount > 0);
   }
+
+  async deleteMany(keys: readonly string[]): Promise<number> {
+    await this.ready;
+    if (typeof this.collection.deleteMany !== "function") {
+      const deleted = await Promise.all(keys.map((key) => this.delete(key)));
+      return deleted.filter(Boolean).length;
+    }
+    const result = await this.collection.deleteMany({ _id: { $in: [...keys] } });
+    return result.deletedCount ?? 0;
+  }
+
+  /** Pages through matching ids in `_id` order using an anchored regex, which can use the `_id` index. */
+  private async *scanIds(
+    prefix: string,
+    options: IdempotencyScanOptions = {},
+  ): AsyncGenerator<IdempotencyScanEntry> {
+    await this.ready;
+    let cursor = options.cursor ?? "";
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    while (remaining > 0) {
+      const pageSize = Math.min(remaining, SCAN_PAGE_SIZE);
+      const page = await this.collection
+        .find!({ _id: { $regex: `^${escapeRegex(prefix)}`, $gt: cursor } }, { sort: { _id: 1 }, limit: pageSize })
+        .toArray();
+      const now = Date.now();
+      for (const document of page) {
+        if (document.expiresAt && document.expiresAt.getTime() <= now) {
+          continue;
+        }
+        remaining -= 1;
+        yield { key: document._id, ...toStoreValue(document), cursor: document._id };
+      }
+      if (page.length < pageSize) {
+        return;
+      }
+      cursor = page[page.length - 1]._id;
+    }
+  }
+
+  /**
+   * Removes expired documents for deployments that run with `ensureIndexes: false` and therefore
+   * have no TTL index doing it server side.
+   */
+  private async removeExpired(options: IdempotencyPurgeOptions = {}): Promise<number> {
+    await this.ready;
+    return purgeInBatches(options, async (limit) => {
+      const now = new Date();
+      const expired = await this.collection.find!({ expiresAt: { $lte: now } }, { limit }).toArray();
+      if (expired.length === 0) {
+        return 0;
+      }
+      const ids = expired.map((document) => document._id);
+      const result = await this.collection.deleteMany!({ _id: { $in: ids }, expiresAt: { $lte: now } });
+      return result.deletedCount ?? 0;
+    });
+  }
 }
@@ -1,5 +1,15 @@
 import { IdempotencyError } from "../errors.js";
-import type { IdempotencyStore, IdempotencyStoreValue, MySqlClientLike } from "../types.js";
+import { purgeInBatches } from "./purge.js";
+import { initialVersion } from "./version.js";
+import type {
+  IdempotencyPurgeOptions,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+  MySqlClientLike,
+} from "../types.js";
 
 interface MySqlStoreOptions {
   readonly tableName?: string;
@@ -10,6 +20,11 @@ interface MySqlStoreOptions {
 interface MySqlRow {
   value: string;
   expires_at: Date | string | null;
+  version: number | string;
+}
+
+interface MySqlKeyedRow extends MySqlRow {
+  key: string;
 }
 
 interface MySqlResult {
@@ -17,7 +32,10 @@ interface MySqlResult {
 }
 
 const DEFAULT_TABLE = "steadykey_entries";
+// ER_DUP_FIELDNAME: MySQL has no ADD COLUMN IF NOT EXISTS, so an existing column surfaces as this error.
+const DUPLICATE_COLUMN_ERRNO = 1060;
 const DEFAULT_KEY_LENGTH = 128;
+const SCAN_PAGE_SIZE = 100;
 
 const quoteIdentifier = (identifier: string): string => {
   if (!/^[A-Za-z_][A-Za-z0-9_$.]*$/.test(identifier)) {
@@ -56,8 +74,16 @@ const toDate = (value: Date | string | null | undefined): Date | null => {
   return new Date(value);
 };
 
+const toStoreValue = (row: MySqlRow): IdempotencyStoreValue => ({
+  value: row.value,
+  ttlSeconds: ttlFromDate(toDate(row.expires_at)),
+  version: String(row.version),
+});
+
 const CURRENT_CONDITION = "(`expires_at` IS NULL OR `expires_at` > UTC_TIMESTAMP())";
 
+const likePrefix = (prefix: string): string => `${prefix.replace(/[!%_]/g, "!$&")}%`;
+
 export class MySqlIdempotencyStore implements IdempotencyStore {
   private readonly table: string;
   private readonly ready: Promise<void>;
@@ -83,39 +109,89 @@ export class MySqlIdempotencyStore implements IdempotencyStore {
         \`key\` VARCHAR(${this.keyLength}) PRIMARY KEY,
         \`value\` TEXT NOT NULL,
         \`expires_at\` DATETIME NULL,
+        \`version\` BIGINT NOT NULL DEFAULT 0,
         INDEX \`steadykey_expires_at_idx\` (\`expires_at\`)
       ) ENGINE=InnoDB;
     `;
     await this.client.execute(ddl);
+    try {
+      // Tables created before versions were tracked lack the column.
+      await this.client.execute(`ALTER TABLE ${this.table} ADD COLUMN \`version\` BIGINT NOT NULL DEFAULT 0`);
+    } catch (error) {
+      if ((error as { errno?: number }).errno !== DUPLICATE_COLUMN_ERRNO) {
+        throw error;
+      }
+    }
   }
 
   async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
     await this.ready;
     const expiresAt = toDateOrNull(ttlSeconds);
     const [result] = await this.client.execute<MySqlResult>(
-      `INSERT IGNORE INTO ${this.table} (\`key\`, \`value\`, \`expires_at\`)
-       VALUES (?, ?, ?)`,
-      [key, value, expiresAt],
+      `INSERT IGNORE INTO ${this.table} (\`key\`, \`value\`, \`expires_at\`, \`version\`)
+       VALUES (?, ?, ?, ?)`,
+      [key, value, expiresAt, initialVersion()],
     );
     return Boolean((result as MySqlResult).affectedRows === 1);
   }
 
+  /**
+   * Inserts every entry with one multi-row `INSERT IGNORE`, which only reports how many rows it added.
+   * When some were skipped, the versions are read back: every insert starts at its own random version,
+   * so the rows still holding it are the ones this call created.
+   */
+  async setManyIfAbsent(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    await this.ready;
+    const versions = entries.map(() => initialVersion());
+    const [result] = await this.client.execute<MySqlResult>(
+      `INSERT IGNORE INTO ${this.table} (\`key\`, \`value\`, \`expires_at\`, \`version\`)
+       VALUES ${entries.map(() => "(?, ?, ?, ?)").join(", ")}`,
+      entries.flatMap(({ key, value, ttlSeconds }, index) => [key, value, toDateOrNull(ttlSeconds), versions[index]]),
+    );
+    if ((result as MySqlResult).affectedRows === entries.length) {
+      return entries.map(() => true);
+    }
+
+    const keys = Array.from(new Set(entries.map(({ key }) => key)));
+    const [rows] = await this.client.execute<{ key: string; version: number | string }[]>(
+      `SELECT \`key\`, \`version\` FROM ${this.table} WHERE \`key\` IN (${keys.map(() => "?").join(", ")})`,
+      keys,
+    );
+    const current = new Map((Array.isArray(rows) ? rows : []).map((row) => [row.key, String(row.version)]));
+    return entries.map(({ key }, index) => current.get(key) === String(versions[index]));
+  }
+
   async get(key: string): Promise<IdempotencyStoreValue | null> {
     await this.ready;
     const [rows] = await this.client.execute<MySqlRow[]>(
-      `SELECT \`value\`, \`expires_at\` FROM ${this.table} WHERE \`key\` = ? AND ${CURRENT_CONDITION} LIMIT 1`,
+      `SELECT \`value\`, \`expires_at\`, \`version\` FROM ${this.table}
+       WHERE \`key\` = ? AND ${CURRENT_CONDITION} LIMIT 1`,
       [key],
     );
 
     const row = Array.isArray(rows) ? rows[0] : undefined;
-    if (!row) {
-      return null;
-    }
+    return row ? toStoreValue(row) : null;
+  }
 
-    return {
-      value: row.value,
-      ttlSeconds: ttlFromDate(toDate(row.expires_at)),
-    };
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    await this.ready;
+    const placeholders = keys.map(() => "?").join(", ");
+    const [rows] = await this.client.execute<MySqlKeyedRow[]>(
+      `SELECT \`key\`, \`value\`, \`expires_at\`, \`version\` FROM ${this.table}
+       WHERE \`key\` IN (${placeholders}) AND ${CURRENT_CONDITION}`,
+      [...keys],
+    );
+    const found = new Map((Array.isArray(rows) ? rows : []).map((row) => [row.key, row]));
+    return keys.map((key) => {
+      const row = found.get(key);
+      return row ? toStoreValue(row) : null;
+    });
   }
 
   async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
@@ -124,7 +200,8 @@ export class MySqlIdempotencyStore implements IdempotencyStore {
     const [result] = await this.client.execute<MySqlResult>(
       `UPDATE ${this.table}
          SET \`value\` = ?,
-             \`expires_at\` = ?
+             \`expires_at\` = ?,
+             \`version\` = \`version\` + 1
        WHERE \`key\` = ?`,
       [value, expiresAt, key],
     );
@@ -134,6 +211,56 @@ export class MySqlIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  async updateIfMatches(
+    key: string,
+    expectedValue: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = toDateOrNull(ttlSeconds);
+    const [result] = await this.client.execute<MySqlResult>(
+      `UPDATE ${this.table}
+         SET \`value\` = ?,
+             \`expires_at\` = ?,
+             \`version\` = \`version\` + 1
+       WHERE \`key\` = ? AND \`value\` = ? AND ${CURRENT_CONDITION}`,
+      [value, expiresAt, key, expectedValue],
+    );
+    return Boolean(result && (result as MySqlResult).affectedRows === 1);
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = toDateOrNull(ttlSeconds);
+    const [result] = await this.client.execute<MySqlResult>(
+      `UPDATE ${this.table}
+         SET \`value\` = ?,
+             \`expires_at\` = ?,
+             \`version\` = \`version\` + 1
+       WHERE \`key\` = ? AND \`version\` = ? AND ${CURRENT_CONDITION}`,
+      [value, expiresAt, key, expectedVersion],
+    );
+    return Boolean(result && (result as MySqlResult).affectedRows === 1);
+  }
+
+  async touch(key: string, ttlSeconds: number | null): Promise<boolean> {
+    await this.ready;
+    const [result] = await this.client.execute<MySqlResult>(
+      `UPDATE ${this.table}
+         SET \`expires_at\` = ?,
+             \`version\` = \`version\` + 1
+       WHERE \`key\` = ? AND ${CURRENT_CONDITION}`,
+      [toDateOrNull(ttlSeconds), key],
+    );
+    return Boolean(result && (result as MySqlResult).affectedRows === 1);
+  }
+
   async delete(key: string): Promise<boolean> {
     await this.ready;
     const [result] = await this.client.execute<MySqlResult>(
@@ -142,4 +269,56 @@ export class MySqlIdempotencyStore implements IdempotencyStore {
     );
     return Boolean((result as MySqlResult).affectedRows && (result as MySqlResult).affectedRows! > 0);
   }
+
+  /** Pages through matching keys in key order, resuming each page after the last key seen. */
+  async *scan(prefix: string, options: IdempotencyScanOptions = {}): AsyncGenerator<IdempotencyScanEntry> {
+    await this.ready;
+    let cursor = options.cursor ?? "";
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    while (remaining > 0) {
+      const pageSize = Math.min(remaining, SCAN_PAGE_SIZE);
+      const [rows] = await this.client.execute<MySqlKeyedRow[]>(
+        `SELECT \`key\`, \`value\`, \`expires_at\`, \`version\` FROM ${this.table}
+         WHERE \`key\` LIKE ? ESCAPE '!' AND \`key\` > ? AND ${CURRENT_CONDITION}
+         ORDER BY \`key\`
+         LIMIT ${pageSize}`,
+        [likePrefix(prefix), cursor],
+      );
+      const page = Array.isArray(rows) ? rows : [];
+      for (const row of page) {
+        remaining -= 1;
+        yield { key: row.key, ...toStoreValue(row), cursor: row.key };
+      }
+      if (page.length < pageSize) {
+        return;
+      }
+      cursor = page[page.length - 1].key;
+    }
+  }
+
+  async purgeExpired(options: IdempotencyPurgeOptions = {}): Promise<number> {
+    await this.ready;
+    return purgeInBatches(options, async (limit) => {
+      const [result] = await this.client.execute<MySqlResult>(
+        `DELETE FROM ${this.table}
+         WHERE \`expires_at\` <= UTC_TIMESTAMP()
+         ORDER BY \`expires_at\`
+         LIMIT ${limit}`,
+      );
+      return (result as MySqlResult).affectedRows ?? 0;
+    });
+  }
+
+  async deleteMany(keys: readonly string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+    await this.ready;
+    const placeholders = keys.map(() => "?").join(", ");
+    const [result] = await this.client.execute<MySqlResult>(
+      `DELETE FROM ${this.table} WHERE \`key\` IN (${placeholders})`,
+      [...keys],
+    );
+    return (result as MySqlResult).affectedRows ?? 0;
+  }
 }
@@ -1,5 +1,15 @@
 import { IdempotencyError } from "../errors.js";
-import type { IdempotencyStore, IdempotencyStoreValue, PgClientLike } from "../types.js";
+import { purgeInBatches } from "./purge.js";
+import { initialVersion } from "./version.js";
+import type {
+  IdempotencyPurgeOptions,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+  PgClientLike,
+} from "../types.js";
 
 interface PostgresStoreOptions {
   readonly tableName?: string;
@@ -9,9 +19,16 @@ interface PostgresStoreOptions {
 interface PostgresRow {
   value: string;
   expires_at: string | null;
+  // BIGINT columns arrive as strings from node-postgres.
+  version: string | number;
+}
+
+interface PostgresKeyedRow extends PostgresRow {
+  key: string;
 }
 
 const DEFAULT_TABLE = "steadykey_entries";
+const SCAN_PAGE_SIZE = 100;
 
 const quoteIdentifier = (identifier: string): string => {
   if (!/^[A-Za-z_][A-Za-z0-9_$.]*$/.test(identifier)) {
@@ -38,8 +55,15 @@ const ttlFromDate = (expiresAt: Date | null): number | null => {
   return remaining > 0 ? remaining : 0;
 };
 
+const toStoreValue = (row: PostgresRow): IdempotencyStoreValue => {
+  const expiresAt = row.expires_at ? new Date(row.expires_at) : null;
+  return { value: row.value, ttlSeconds: ttlFromDate(expiresAt), version: String(row.version) };
+};
+
 const CURRENT_CONDITION = "(expires_at IS NULL OR expires_at > NOW())";
 
+const likePrefix = (prefix: string): string => `${prefix.replace(/[!%_]/g, "!$&")}%`;
+
 export class PostgresIdempotencyStore implements IdempotencyStore {
   private readonly table: string;
   private readonly ready: Promise<void>;
@@ -66,8 +90,10 @@ export class PostgresIdempotencyStore implements IdempotencyStore {
       CREATE TABLE IF NOT EXISTS ${this.table} (
         key TEXT PRIMARY KEY,
         value TEXT NOT NULL,
-        expires_at TIMESTAMPTZ NULL
+        expires_at TIMESTAMPTZ NULL,
+        version BIGINT NOT NULL DEFAULT 0
       );
+      ALTER TABLE ${this.table} ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 0;
       CREATE INDEX IF NOT EXISTS "${this.indexName}" ON ${this.table} (expires_at);
     `;
     await this.client.query(ddl);
@@ -77,10 +103,10 @@ export class PostgresIdempotencyStore implements IdempotencyStore {
     await this.ready;
     const expiresAt = toDateOrNull(ttlSeconds);
     const result = await this.client.query(
-      `INSERT INTO ${this.table} (key, value, expires_at)
-       VALUES ($1, $2, $3)
+      `INSERT INTO ${this.table} (key, value, expires_at, version)
+       VALUES ($1, $2, $3, $4)
        ON CONFLICT (key) DO NOTHING`,
-      [key, value, expiresAt],
+      [key, value, expiresAt, initialVersion()],
     );
     return result.rowCount === 1;
   }
@@ -88,15 +114,43 @@ export class PostgresIdempotencyStore implements IdempotencyStore {
   async get(key: string): Promise<IdempotencyStoreValue | null> {
     await this.ready;
     const result = await this.client.query<PostgresRow>(
-      `SELECT value, expires_at FROM ${this.table} WHERE key = $1 AND ${CURRENT_CONDITION} LIMIT 1`,
+      `SELECT value, expires_at, version FROM ${this.table} WHERE key = $1 AND ${CURRENT_CONDITION} LIMIT 1`,
       [key],
     );
     const row = result.rows[0];
-    if (!row) {
-      return null;
-    }
-    const expiresAt = row.expires_at ? new Date(row.expires_at) : null;
-    return { value: row.value, ttlSeconds: ttlFromDate(expiresAt) };
+    return row ? toStoreValue(row) : null;
+  }
+
+  async setManyIfAbsent(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    await this.ready;
+    const params: unknown[] = [];
+    const rows = entries.map(({ key, value, ttlSeconds }) => {
+      params.push(key, value, toDateOrNull(ttlSeconds), initialVersion());
+      const offset = params.length - 4;
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4})`;
+    });
+    const result = await this.client.query<{ key: string }>(
+      `INSERT INTO ${this.table} (key, value, expires_at, version)
+       VALUES ${rows.join(", ")}
+       ON CONFLICT (key) DO NOTHING
+       RETURNING key`,
+      params,
+    );
+    const inserted = new Set(result.rows.map((row) => row.key));
+    return entries.map(({ key }) => inserted.has(key));
+  }
+
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    await this.ready;
+    const result = await this.client.query<PostgresKeyedRow>(
+      `SELECT key, value, expires_at, version FROM ${this.table} WHERE key = ANY($1) AND ${CURRENT_CONDITION}`,
+      [keys],
+    );
+    const rows = new Map(result.rows.map((row) => [row.key, row]));
+    return keys.map((key) => {
+      const row = rows.get(key);
+      return row ? toStoreValue(row) : null;
+    });
   }
 
   async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
@@ -105,7 +159,8 @@ export class PostgresIdempotencyStore implements IdempotencyStore {
     const result = await this.client.query(
       `UPDATE ${this.table}
          SET value = $2,
-             expires_at = $3
+             expires_at = $3,
+             version = version + 1
        WHERE key = $1`,
       [key, value, expiresAt],
     );
@@ -115,9 +170,107 @@ export class PostgresIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  async updateIfMatches(
+    key: string,
+    expectedValue: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = toDateOrNull(ttlSeconds);
+    const result = await this.client.query(
+      `UPDATE ${this.table}
+         SET value = $3,
+             expires_at = $4,
+             version = version + 1
+       WHERE key = $1 AND value = $2 AND ${CURRENT_CONDITION}`,
+      [key, expectedValue, value, expiresAt],
+    );
+    return result.rowCount === 1;
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = toDateOrNull(ttlSeconds);
+    const result = await this.client.query(
+      `UPDATE ${this.table}
+         SET value = $3,
+             expires_at = $4,
+             version = version + 1
+       WHERE key = $1 AND version = $2 AND ${CURRENT_CONDITION}`,
+      [key, expectedVersion, value, expiresAt],
+    );
+    return result.rowCount === 1;
+  }
+
+  async touch(key: string, ttlSeconds: number | null): Promise<boolean> {
+    await this.ready;
+    const result = await this.client.query(
+      `UPDATE ${this.table}
+         SET expires_at = $2,
+             version = version + 1
+       WHERE key = $1 AND ${CURRENT_CONDITION}`,
+      [key, toDateOrNull(ttlSeconds)],
+    );
+    return result.rowCount === 1;
+  }
+
   async delete(key: string): Promise<boolean> {
     await this.ready;
     const result = await this.client.query(`DELETE FROM ${this.table} WHERE key = $1`, [key]);
     return result.rowCount > 0;
   }
+
+  /** Pages through matching keys in key order, resuming each page after the last key seen. */
+  async *scan(prefix: string, options: IdempotencyScanOptions = {}): AsyncGenerator<IdempotencyScanEntry> {
+    await this.ready;
+    let cursor = options.cursor ?? "";
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    while (remaining > 0) {
+      const result = await this.client.query<PostgresKeyedRow>(
+        `SELECT key, value, expires_at, version FROM ${this.table}
+         WHERE key LIKE $1 ESCAPE '!' AND key > $2 AND ${CURRENT_CONDITION}
+         ORDER BY key
+         LIMIT $3`,
+        [likePrefix(prefix), cursor, Math.min(remaining, SCAN_PAGE_SIZE)],
+      );
+      for (const row of result.rows) {
+        remaining -= 1;
+        yield { key: row.key, ...toStoreValue(row), cursor: row.key };
+      }
+      if (result.rows.length < SCAN_PAGE_SIZE) {
+        return;
+      }
+      cursor = result.rows[result.rows.length - 1].key;
+    }
+  }
+
+  async purgeExpired(options: IdempotencyPurgeOptions = {}): Promise<number> {
+    await this.ready;
+    return purgeInBatches(options, async (limit) => {
+      // SKIP LOCKED lets concurrent sweepers on other instances work on different rows.
+      const result = await this.client.query(
+        `DELETE FROM ${this.table}
+         WHERE key IN (
+           SELECT key FROM ${this.table}
+           WHERE expires_at <= NOW()
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )`,
+        [limit],
+      );
+      return result.rowCount;
+    });
+  }
+
+  async deleteMany(keys: readonly string[]): Promise<number> {
+    await this.ready;
+    const result = await this.client.query(`DELETE FROM ${this.table} WHERE key = ANY($1)`, [keys]);
+    return result.rowCount;
+  }
 }
@@ -0,0 +1,27 @@
+import { IdempotencyError } from "../errors.js";
+import type { IdempotencyPurgeOptions } from "../types.js";
+
+const DEFAULT_PURGE_BATCH_SIZE = 1000;
+
+/**
+ * Repeats `deleteBatch` until a batch removes fewer rows than requested, so each statement only
+ * holds locks on a bounded number of rows. Resolves to the total number of rows removed.
+ */
+export const purgeInBatches = async (
+  options: IdempotencyPurgeOptions,
+  deleteBatch: (limit: number) => Promise<number>,
+): Promise<number> => {
+  const batchSize = options.batchSize ?? DEFAULT_PURGE_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new IdempotencyError("batchSize must be a positive integer when provided");
+  }
+
+  let total = 0;
+  for (;;) {
+    const removed = await deleteBatch(batchSize);
+    total += removed;
+    if (removed < batchSize) {
+      return total;
+    }
+  }
+};
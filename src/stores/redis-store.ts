@@ -1,11 +1,46 @@
+import { createHash } from "crypto";
 import type { RedisClientType, SetOptions } from "redis";
 import { IdempotencyError } from "../errors.js";
-import type { IdempotencyStore, IdempotencyStoreValue } from "../types.js";
+import type {
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+} from "../types.js";
 
-export type RedisClientLike = Pick<
-  RedisClientType,
-  "set" | "get" | "ttl" | "persist" | "del"
->;
+/**
+ * Only the basic commands are required. Batches fall back to one command per key without `multi`, and
+ * conditional writes (`eval`), `touch` (`expire` and `exists`) and `scan` are only offered when the client has them.
+ */
+export type RedisClientLike = Pick<RedisClientType, "set" | "get" | "ttl" | "persist" | "del"> &
+  Partial<Pick<RedisClientType, "expire" | "exists" | "eval" | "multi" | "scan">>;
+
+export type RedisSubscriberLike = Pick<RedisClientType, "pSubscribe" | "pUnsubscribe">;
+
+interface RedisStoreOptions {
+  /**
+   * Dedicated connection used for keyspace notifications. The server must have
+   * `notify-keyspace-events` enabled for generic and string events (for example `Kg$`).
+   */
+  readonly subscriber?: RedisSubscriberLike;
+}
+
+const escapeGlob = (value: string): string => value.replace(/[*?[\]\\]/g, "\\$&");
+
+const SCAN_COUNT = 100;
+
+/** Redis cursors address a SCAN batch, so entry cursors also record how many keys of that batch were consumed. */
+const parseScanCursor = (cursor: string | undefined): [number, number] => {
+  if (cursor === undefined) {
+    return [0, 0];
+  }
+  const match = /^(\d+):(\d+)$/.exec(cursor);
+  if (!match) {
+    throw new IdempotencyError(`Invalid Redis scan cursor: ${cursor}`);
+  }
+  return [Number(match[1]), Number(match[2])];
+};
 
 const toTtlSeconds = (ttl: number): number | null => {
   if (ttl < 0) {
@@ -14,29 +49,119 @@ const toTtlSeconds = (ttl: number): number | null => {
   return ttl;
 };
 
+/**
+ * Redis keeps no per-key revision, so the version is the SHA-1 of the value, which Lua can compute too. A key
+ * deleted and created again only repeats a version when the new value is byte-identical to the old one.
+ */
+const versionOf = (value: string): string => createHash("sha1").update(value, "utf8").digest("hex");
+
+const setOptionsFor = (ttlSeconds: number | null): SetOptions => {
+  const options: SetOptions = { NX: true };
+  if (typeof ttlSeconds === "number" && ttlSeconds > 0) {
+    options.EX = ttlSeconds;
+  }
+  return options;
+};
+
+const UPDATE_IF_MATCHES_SCRIPT = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+else
+  redis.call("SET", KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if not current or redis.sha1hex(current) ~= ARGV[1] then
+  return 0
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+else
+  redis.call("SET", KEYS[1], ARGV[2])
+end
+return 1
+`;
+
 export class RedisIdempotencyStore implements IdempotencyStore {
-  constructor(private readonly redis: RedisClientLike) {
+  readonly updateIfMatches?: IdempotencyStore["updateIfMatches"];
+  readonly compareAndSet?: IdempotencyStore["compareAndSet"];
+  readonly touch?: IdempotencyStore["touch"];
+  readonly scan?: IdempotencyStore["scan"];
+
+  private readonly subscriber?: RedisSubscriberLike;
+
+  constructor(private readonly redis: RedisClientLike, options: RedisStoreOptions = {}) {
     if (!redis) {
       throw new IdempotencyError("Redis client instance is required for RedisIdempotencyStore");
     }
+    this.subscriber = options.subscriber;
+
+    if (typeof redis.eval === "function") {
+      this.updateIfMatches = (key, expectedValue, value, ttlSeconds) =>
+        this.runScript(UPDATE_IF_MATCHES_SCRIPT, key, expectedValue, value, ttlSeconds);
+      // Writing back a byte-identical value leaves the version unchanged, which is harmless for records.
+      this.compareAndSet = (key, expectedVersion, value, ttlSeconds) =>
+        this.runScript(COMPARE_AND_SET_SCRIPT, key, expectedVersion, value, ttlSeconds);
+    }
+    if (typeof redis.expire === "function" && typeof redis.exists === "function") {
+      this.touch = (key, ttlSeconds) => this.refreshTtl(key, ttlSeconds);
+    }
+    if (typeof redis.scan === "function") {
+      this.scan = (prefix, scanOptions) => this.scanKeys(prefix, scanOptions);
+    }
   }
 
   async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
-    const options: SetOptions = { NX: true };
-    if (typeof ttlSeconds === "number" && ttlSeconds > 0) {
-      options.EX = ttlSeconds;
-    }
-    const result = await this.redis.set(key, value, options);
+    const result = await this.redis.set(key, value, setOptionsFor(ttlSeconds));
     return result === "OK";
   }
 
+  async setManyIfAbsent(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]> {
+    if (typeof this.redis.multi !== "function") {
+      return Promise.all(entries.map(({ key, value, ttlSeconds }) => this.setIfAbsent(key, value, ttlSeconds)));
+    }
+    const pipeline = this.redis.multi();
+    for (const { key, value, ttlSeconds } of entries) {
+      pipeline.set(key, value, setOptionsFor(ttlSeconds));
+    }
+    const replies = await pipeline.execAsPipeline();
+    return replies.map((reply) => reply === "OK");
+  }
+
   async get(key: string): Promise<IdempotencyStoreValue | null> {
     const value = await this.redis.get(key);
     if (value === null) {
       return null;
     }
     const ttl = await this.redis.ttl(key);
-    return { value, ttlSeconds: toTtlSeconds(ttl) };
+    return { value, ttlSeconds: toTtlSeconds(ttl), version: versionOf(value) };
+  }
+
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    if (typeof this.redis.multi !== "function") {
+      return Promise.all(keys.map((key) => this.get(key)));
+    }
+    const pipeline = this.redis.multi();
+    for (const key of keys) {
+      pipeline.get(key).ttl(key);
+    }
+    const replies = await pipeline.execAsPipeline();
+    return keys.map((_, index) => {
+      const value = replies[index * 2];
+      if (typeof value !== "string") {
+        return null;
+      }
+      return { value, ttlSeconds: toTtlSeconds(Number(replies[index * 2 + 1])), version: versionOf(value) };
+    });
   }
 
   async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
@@ -59,4 +184,74 @@ export class RedisIdempotencyStore implements IdempotencyStore {
     const deleted = await this.redis.del(key);
     return deleted > 0;
   }
+
+  async deleteMany(keys: readonly string[]): Promise<number> {
+    return this.redis.del([...keys]);
+  }
+
+  async watch(key: string, onChange: () => void): Promise<() => Promise<void>> {
+    const subscriber = this.subscriber;
+    if (!subscriber) {
+      // Without a subscriber connection callers rely on polling alone.
+      return async () => undefined;
+    }
+
+    const pattern = `__keyspace@*__:${escapeGlob(key)}`;
+    const listener = (): void => onChange();
+    await subscriber.pSubscribe(pattern, listener);
+    return async () => {
+      await subscriber.pUnsubscribe(pattern, listener);
+    };
+  }
+
+  private async runScript(
+    script: string,
+    key: string,
+    expected: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    const ttl = typeof ttlSeconds === "number" && ttlSeconds > 0 ? ttlSeconds : 0;
+    const result = await this.redis.eval!(script, {
+      keys: [key],
+      arguments: [expected, value, String(ttl)],
+    });
+    return Number(result) === 1;
+  }
+
+  private async refreshTtl(key: string, ttlSeconds: number | null): Promise<boolean> {
+    if (typeof ttlSeconds === "number" && ttlSeconds > 0) {
+      return this.redis.expire!(key, ttlSeconds);
+    }
+    if (await this.redis.persist(key)) {
+      return true;
+    }
+    // PERSIST also reports false for keys that exist but already have no expiry.
+    return (await this.redis.exists!(key)) > 0;
+  }
+
+  /** Built on SCAN, so keys written or removed while scanning may be missed or yielded twice. */
+  private async *scanKeys(
+    prefix: string,
+    options: IdempotencyScanOptions = {},
+  ): AsyncGenerator<IdempotencyScanEntry> {
+    let [cursor, skip] = parseScanCursor(options.cursor);
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    do {
+      const reply = await this.redis.scan!(cursor, { MATCH: `${escapeGlob(prefix)}*`, COUNT: SCAN_COUNT });
+      const keys = reply.keys.map(String);
+      const values = await this.getMany(keys.slice(skip));
+      for (const [offset, stored] of values.entries()) {
+        if (remaining <= 0) {
+          return;
+        }
+        if (stored) {
+          remaining -= 1;
+          yield { key: keys[skip + offset], ...stored, cursor: `${cursor}:${skip + offset + 1}` };
+        }
+      }
+      cursor = reply.cursor;
+      skip = 0;
+    } while (cursor !== 0 && remaining > 0);
+  }
 }
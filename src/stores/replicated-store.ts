@@ -0,0 +1,231 @@
+import { IdempotencyError, IdempotencyStoreUnavailableError } from "../errors.js";
+import type { IdempotencyStore, IdempotencyStoreValue } from "../types.js";
+
+export type ReplicatedStoreOperation = "setIfAbsent" | "get" | "update" | "delete" | "updateIfMatches" | "repair";
+
+export interface ReplicatedStoreOptions {
+  /** Replicas that must accept an insert or update for it to succeed. Defaults to a majority. */
+  readonly writeQuorum?: number;
+  /**
+   * Replicas that must answer a read. Defaults to `replicas - writeQuorum + 1`, so every read overlaps
+   * every successful write.
+   */
+  readonly readQuorum?: number;
+  /** Copies the chosen value onto replicas that disagreed during a read. Defaults to `true`. */
+  readonly readRepair?: boolean;
+  /** Called for every failed replica call, including ones the quorum tolerated. */
+  readonly onReplicaError?: (operation: ReplicatedStoreOperation, replica: number, error: unknown) => void;
+}
+
+type ReplicaOutcome<T> = { readonly ok: true; readonly value: T } | { readonly ok: false; readonly error: unknown };
+
+const requireQuorum = (name: string, value: number | undefined, fallback: number, replicas: number): number => {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!Number.isInteger(value) || value < 1 || value > replicas) {
+    throw new IdempotencyError(`${name} must be an integer between 1 and ${replicas} when provided`);
+  }
+  return value;
+};
+
+/**
+ * Keeps every key on several independent stores, typically one per region, and answers with a quorum.
+ *
+ * Under partial failure:
+ * - `setIfAbsent` returns `true` once `writeQuorum` replicas inserted the value and `false` once
+ *   `writeQuorum` replicas already hold the key. Otherwise no quorum decided, either because replicas failed
+ *   or because the vote split, so it throws {@link IdempotencyStoreUnavailableError}. Whenever it does not
+ *   return `true`, the inserts it did make are deleted again on a best-effort basis.
+ * - `updateIfMatches` follows the same rules and puts the expected value back where it partially applied.
+ *   The original TTL is not known at that point, so the restored value keeps the TTL of the update.
+ *   `update` throws when fewer than `writeQuorum` replicas accepted it, without undoing the ones that did.
+ * - `get` needs `readQuorum` answers. Replicas without the key count as votes for its absence. It returns
+ *   the answer given by the most replicas, preferring earlier replicas on ties, and once that value is held
+ *   by `writeQuorum` replicas repairs the ones that were missing or held another value. Concurrent
+ *   conflicting updates that both reached a quorum can therefore settle on either value.
+ * - `delete` is sent to every replica and only throws when none of them answered.
+ *
+ * Replicas are called in parallel and a replica that never answers stalls the call, so wrap remote stores in
+ * `ResilientIdempotencyStore` to bound them. Versions are per replica and are not exposed, so
+ * conditional writes compare values.
+ */
+export class ReplicatedIdempotencyStore implements IdempotencyStore {
+  readonly updateIfMatches?: IdempotencyStore["updateIfMatches"];
+
+  private readonly writeQuorum: number;
+  private readonly readQuorum: number;
+  private readonly readRepair: boolean;
+
+  constructor(
+    private readonly replicas: readonly IdempotencyStore[],
+    private readonly options: ReplicatedStoreOptions = {},
+  ) {
+    if (!Array.isArray(replicas) || replicas.length === 0) {
+      throw new IdempotencyError("At least one replica is required for ReplicatedIdempotencyStore");
+    }
+    const count = replicas.length;
+    this.writeQuorum = requireQuorum("writeQuorum", options.writeQuorum, Math.floor(count / 2) + 1, count);
+    this.readQuorum = requireQuorum("readQuorum", options.readQuorum, count - this.writeQuorum + 1, count);
+    this.readRepair = options.readRepair ?? true;
+
+    if (replicas.every((replica) => typeof replica.updateIfMatches === "function")) {
+      this.updateIfMatches = async (key, expectedValue, value, ttlSeconds) => {
+        const outcomes = await this.fanOut("updateIfMatches", (replica) =>
+          replica.updateIfMatches!(key, expectedValue, value, ttlSeconds),
+        );
+        return this.settle("updateIfMatches", key, outcomes, (replica) =>
+          replica.updateIfMatches!(key, value, expectedValue, ttlSeconds),
+        );
+      };
+    }
+  }
+
+  async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
+    const outcomes = await this.fanOut("setIfAbsent", (replica) => replica.setIfAbsent(key, value, ttlSeconds));
+    return this.settle("setIfAbsent", key, outcomes, (replica) => this.undoInsert(replica, key, value));
+  }
+
+  async get(key: string): Promise<IdempotencyStoreValue | null> {
+    const outcomes = await this.fanOut("get", (replica) => replica.get(key));
+    const answers = outcomes.flatMap((outcome, index) => (outcome.ok ? [{ index, stored: outcome.value }] : []));
+    if (answers.length < this.readQuorum) {
+      throw this.unavailable("get", key, answers.length, this.readQuorum, outcomes);
+    }
+
+    // Replicas that do not hold the key vote for its absence, so a leftover copy cannot outvote a delete.
+    const holders = new Map<string | null, typeof answers>();
+    for (const answer of answers) {
+      const held = answer.stored?.value ?? null;
+      holders.set(held, [...(holders.get(held) ?? []), answer]);
+    }
+    let chosen = answers;
+    let chosenCount = 0;
+    for (const candidates of holders.values()) {
+      if (candidates.length > chosenCount) {
+        chosen = candidates;
+        chosenCount = candidates.length;
+      }
+    }
+    const winner = chosen[0].stored;
+    if (!winner) {
+      return null;
+    }
+
+    const { value, ttlSeconds } = winner;
+    // Only values a write quorum already holds are copied, so repair never spreads a value that lost.
+    // Replicas that do not report TTLs are not repaired either, since the copy would never expire.
+    if (this.readRepair && ttlSeconds !== undefined && chosen.length >= this.writeQuorum) {
+      const stale = answers.filter(({ stored }) => stored?.value !== value);
+      await Promise.all(stale.map(({ index, stored }) => this.repair(index, key, stored, value, ttlSeconds)));
+    }
+    return ttlSeconds === undefined ? { value } : { value, ttlSeconds };
+  }
+
+  async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
+    const outcomes = await this.fanOut("update", (replica) => replica.update(key, value, ttlSeconds));
+    const applied = outcomes.filter(({ ok }) => ok).length;
+    if (applied < this.writeQuorum) {
+      throw this.unavailable("update", key, applied, this.writeQuorum, outcomes);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const outcomes = await this.fanOut("delete", (replica) => replica.delete(key));
+    if (outcomes.every(({ ok }) => !ok)) {
+      throw this.unavailable("delete", key, 0, 1, outcomes);
+    }
+    return outcomes.some((outcome) => outcome.ok && outcome.value);
+  }
+
+  /**
+   * Turns per-replica results of a conditional write into one answer, undoing the replicas that applied it
+   * unless a quorum did. Only a quorum of rejections is a definite `false`.
+   */
+  private async settle(
+    operation: ReplicatedStoreOperation,
+    key: string,
+    outcomes: readonly ReplicaOutcome<boolean>[],
+    undo: (replica: IdempotencyStore) => Promise<unknown>,
+  ): Promise<boolean> {
+    const applied = outcomes.flatMap((outcome, index) => (outcome.ok && outcome.value ? [index] : []));
+    if (applied.length >= this.writeQuorum) {
+      return true;
+    }
+
+    await Promise.all(applied.map((index) => this.call(operation, index, () => undo(this.replicas[index]))));
+    const rejected = outcomes.filter((outcome) => outcome.ok && !outcome.value).length;
+    if (rejected >= this.writeQuorum) {
+      return false;
+    }
+    throw this.unavailable(operation, key, applied.length, this.writeQuorum, outcomes);
+  }
+
+  /**
+   * Removes an insert that did not reach a quorum, unless the replica has been written since. The read and
+   * the delete are separate calls, so a write landing between them can still be removed.
+   */
+  private async undoInsert(replica: IdempotencyStore, key: string, value: string): Promise<void> {
+    const stored = await replica.get(key);
+    if (stored?.value === value) {
+      await replica.delete(key);
+    }
+  }
+
+  private async repair(
+    index: number,
+    key: string,
+    stored: IdempotencyStoreValue | null,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<void> {
+    const replica = this.replicas[index];
+    await this.call<unknown>("repair", index, () => {
+      if (!stored) {
+        return replica.setIfAbsent(key, value, ttlSeconds);
+      }
+      // Leaves the replica alone if it changed since it was read.
+      return typeof replica.updateIfMatches === "function"
+        ? replica.updateIfMatches(key, stored.value, value, ttlSeconds)
+        : replica.update(key, value, ttlSeconds);
+    });
+  }
+
+  private fanOut<T>(
+    operation: ReplicatedStoreOperation,
+    run: (replica: IdempotencyStore) => Promise<T>,
+  ): Promise<ReplicaOutcome<T>[]> {
+    return Promise.all(this.replicas.map((replica, index) => this.call(operation, index, () => run(replica))));
+  }
+
+  private async call<T>(
+    operation: ReplicatedStoreOperation,
+    index: number,
+    run: () => Promise<T>,
+  ): Promise<ReplicaOutcome<T>> {
+    try {
+      return { ok: true, value: await run() };
+    } catch (error) {
+      try {
+        this.options.onReplicaError?.(operation, index, error);
+      } catch {
+        // A failing error callback must not change the quorum outcome.
+      }
+      return { ok: false, error };
+    }
+  }
+
+  private unavailable(
+    operation: ReplicatedStoreOperation,
+    key: string,
+    reached: number,
+    required: number,
+    outcomes: readonly ReplicaOutcome<unknown>[],
+  ): IdempotencyStoreUnavailableError {
+    const failed = outcomes.filter(({ ok }) => !ok).length;
+    return new IdempotencyStoreUnavailableError(
+      `Replicated ${operation} for key ${key} reached ${reached} of ${required} required replicas ` +
+        `(${failed} of ${this.replicas.length} failed)`,
+    );
+  }
+}
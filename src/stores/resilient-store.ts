@@ -0,0 +1,371 @@
+import { IdempotencyError, IdempotencyStoreUnavailableError } from "../errors.js";
+import type {
+  IdempotencyPurgeOptions,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+} from "../types.js";
+
+export type ResilientStoreOperation =
+  | "setIfAbsent"
+  | "get"
+  | "update"
+  | "delete"
+  | "updateIfMatches"
+  | "compareAndSet"
+  | "touch"
+  | "watch"
+  | "setManyIfAbsent"
+  | "getMany"
+  | "deleteMany"
+  | "purgeExpired";
+
+/**
+ * `fail_closed` throws {@link IdempotencyStoreUnavailableError}. `fail_open` answers as if the store were
+ * empty: reads find nothing and inserts report success, also when they conflict with a record that cannot be
+ * read back, so requests proceed as new without deduplication.
+ * Conditional writes and `touch` report `false`, since claiming they applied would confirm a lease or
+ * ownership that was never recorded.
+ */
+export type ResilientStoreFailurePolicy = "fail_open" | "fail_closed";
+
+export type ResilientStoreCircuitState = "closed" | "open" | "half_open";
+
+export interface ResilientStoreRetryOptions {
+  /** Total attempts, including the first. Defaults to 3. */
+  readonly attempts?: number;
+  readonly initialDelayMs?: number;
+  readonly maxDelayMs?: number;
+  readonly backoffFactor?: number;
+}
+
+export interface ResilientStoreCircuitBreakerOptions {
+  /** Consecutive failed operations that open the circuit. Defaults to 5. */
+  readonly failureThreshold?: number;
+  /** How long the circuit stays open before a single trial call is let through. Defaults to 30 seconds. */
+  readonly resetTimeoutMs?: number;
+}
+
+export interface ResilientStoreOptions {
+  /** Deadline for each attempt. Defaults to 2 seconds; `null` disables timeouts. */
+  readonly timeoutMs?: number | null;
+  /** Per-operation deadlines that override `timeoutMs`. */
+  readonly operationTimeoutsMs?: Partial<Record<ResilientStoreOperation, number | null>>;
+  /** Retries only apply to reads and idempotent writes; `false` disables them. */
+  readonly retry?: ResilientStoreRetryOptions | false;
+  readonly circuitBreaker?: ResilientStoreCircuitBreakerOptions | false;
+  /** Defaults to `fail_closed`. */
+  readonly failurePolicy?: ResilientStoreFailurePolicy;
+  /**
+   * Decides whether an error from the wrapped store means it is unavailable. Other errors are passed
+   * through untouched and count as a healthy response. Every error counts by default.
+   */
+  readonly isFailure?: (error: unknown) => boolean;
+  /** Called once per operation that failed after all of its attempts, whatever the failure policy. */
+  readonly onFailure?: (operation: ResilientStoreOperation, error: unknown) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 2_000;
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_INITIAL_DELAY_MS = 50;
+const DEFAULT_RETRY_MAX_DELAY_MS = 1_000;
+const DEFAULT_RETRY_BACKOFF_FACTOR = 2;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+// Repeating these cannot change the outcome. Inserts, deletes and conditional writes may have been applied
+// by an attempt that timed out, so a retry would misreport them as conflicts or as keys that were not found.
+const RETRYABLE_OPERATIONS: ReadonlySet<ResilientStoreOperation> = new Set([
+  "get",
+  "getMany",
+  "touch",
+  "purgeExpired",
+]);
+
+const requireInteger = (name: string, value: number | undefined, fallback: number, min = 1): number => {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!Number.isInteger(value) || value < min) {
+    throw new IdempotencyError(`${name} must be an integer of at least ${min} when provided`);
+  }
+  return value;
+};
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const sleep = (delayMs: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, delayMs);
+  });
+
+/**
+ * Wraps any store with per-attempt timeouts, jittered retries for safe operations and a circuit breaker.
+ * Optional methods are only exposed when the wrapped store has them, so feature checks keep working.
+ * Scans are passed through as is because they are consumed lazily by the caller.
+ */
+export class ResilientIdempotencyStore implements IdempotencyStore {
+  readonly updateIfMatches?: IdempotencyStore["updateIfMatches"];
+  readonly compareAndSet?: IdempotencyStore["compareAndSet"];
+  readonly touch?: IdempotencyStore["touch"];
+  readonly watch?: IdempotencyStore["watch"];
+  readonly setManyIfAbsent?: IdempotencyStore["setManyIfAbsent"];
+  readonly getMany?: IdempotencyStore["getMany"];
+  readonly deleteMany?: IdempotencyStore["deleteMany"];
+  readonly scan?: IdempotencyStore["scan"];
+  readonly purgeExpired?: IdempotencyStore["purgeExpired"];
+
+  private readonly timeoutMs: number | null;
+  private readonly operationTimeoutsMs: Partial<Record<ResilientStoreOperation, number | null>>;
+  private readonly attempts: number;
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly backoffFactor: number;
+  private readonly failureThreshold: number | null;
+  private readonly resetTimeoutMs: number;
+  private readonly failurePolicy: ResilientStoreFailurePolicy;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly onFailure?: (operation: ResilientStoreOperation, error: unknown) => void;
+  private state: ResilientStoreCircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly store: IdempotencyStore, options: ResilientStoreOptions = {}) {
+    if (!store) {
+      throw new IdempotencyError("A store to wrap is required for ResilientIdempotencyStore");
+    }
+
+    const timeouts = [options.timeoutMs, ...Object.values(options.operationTimeoutsMs ?? {})];
+    for (const timeout of timeouts) {
+      if (timeout !== undefined && timeout !== null) {
+        requireInteger("timeoutMs", timeout, DEFAULT_TIMEOUT_MS, 0);
+      }
+    }
+    this.timeoutMs = options.timeoutMs === undefined ? DEFAULT_TIMEOUT_MS : options.timeoutMs;
+    this.operationTimeoutsMs = options.operationTimeoutsMs ?? {};
+
+    const retry = options.retry === false ? { attempts: 1 } : options.retry ?? {};
+    this.attempts = requireInteger("retry.attempts", retry.attempts, DEFAULT_RETRY_ATTEMPTS);
+    this.initialDelayMs = requireInteger(
+      "retry.initialDelayMs",
+      retry.initialDelayMs,
+      DEFAULT_RETRY_INITIAL_DELAY_MS,
+      0,
+    );
+    this.maxDelayMs = requireInteger("retry.maxDelayMs", retry.maxDelayMs, DEFAULT_RETRY_MAX_DELAY_MS, 0);
+    this.backoffFactor = retry.backoffFactor ?? DEFAULT_RETRY_BACKOFF_FACTOR;
+    if (!Number.isFinite(this.backoffFactor) || this.backoffFactor < 1) {
+      throw new IdempotencyError("retry.backoffFactor must be a number of at least 1 when provided");
+    }
+
+    const breaker = options.circuitBreaker === false ? undefined : options.circuitBreaker ?? {};
+    this.failureThreshold = breaker
+      ? requireInteger("circuitBreaker.failureThreshold", breaker.failureThreshold, DEFAULT_FAILURE_THRESHOLD)
+      : null;
+    this.resetTimeoutMs = requireInteger(
+      "circuitBreaker.resetTimeoutMs",
+      breaker?.resetTimeoutMs,
+      DEFAULT_RESET_TIMEOUT_MS,
+    );
+
+    this.failurePolicy = options.failurePolicy ?? "fail_closed";
+    this.isFailure = options.isFailure ?? (() => true);
+    this.onFailure = options.onFailure;
+
+    const {
+      updateIfMatches,
+      compareAndSet,
+      touch,
+      watch,
+      setManyIfAbsent,
+      getMany,
+      deleteMany,
+      scan,
+      purgeExpired,
+    } = store;
+    if (updateIfMatches) {
+      this.updateIfMatches = (key, expectedValue, value, ttlSeconds) =>
+        this.call("updateIfMatches", () => updateIfMatches.call(store, key, expectedValue, value, ttlSeconds), false);
+    }
+    if (compareAndSet) {
+      this.compareAndSet = (key, expectedVersion, value, ttlSeconds) =>
+        this.call("compareAndSet", () => compareAndSet.call(store, key, expectedVersion, value, ttlSeconds), false);
+    }
+    if (touch) {
+      this.touch = (key, ttlSeconds) => this.call("touch", () => touch.call(store, key, ttlSeconds), false);
+    }
+    if (watch) {
+      this.watch = async (key, onChange) => {
+        // A subscription that completes after its call timed out is never handed out, so it is undone here.
+        let abandoned = false;
+        const subscribe = async () => {
+          const unsubscribe = await watch.call(store, key, onChange);
+          if (abandoned) {
+            await unsubscribe();
+          }
+          return unsubscribe;
+        };
+        try {
+          return await this.call("watch", subscribe, async () => undefined);
+        } finally {
+          abandoned = true;
+        }
+      };
+    }
+    if (setManyIfAbsent) {
+      this.setManyIfAbsent = (entries: readonly IdempotencyStoreEntry[]) =>
+        this.call("setManyIfAbsent", () => setManyIfAbsent.call(store, entries), entries.map(() => true));
+    }
+    if (getMany) {
+      this.getMany = (keys: readonly string[]) =>
+        this.call<(IdempotencyStoreValue | null)[]>("getMany", () => getMany.call(store, keys), keys.map(() => null));
+    }
+    if (deleteMany) {
+      this.deleteMany = (keys) => this.call("deleteMany", () => deleteMany.call(store, keys), 0);
+    }
+    if (scan) {
+      this.scan = (prefix: string, scanOptions?: IdempotencyScanOptions): AsyncIterable<IdempotencyScanEntry> =>
+        scan.call(store, prefix, scanOptions);
+    }
+    if (purgeExpired) {
+      this.purgeExpired = (purgeOptions?: IdempotencyPurgeOptions) =>
+        this.call("purgeExpired", () => purgeExpired.call(store, purgeOptions), 0);
+    }
+  }
+
+  async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
+    const inserted = await this.call("setIfAbsent", () => this.store.setIfAbsent(key, value, ttlSeconds), true);
+    if (inserted || this.failurePolicy === "fail_closed") {
+      return inserted;
+    }
+    // Callers read the existing record after a conflict. When that read fails open the conflict cannot be
+    // resolved, so the insert is reported as applied, like any other insert that failed open.
+    const readable = await this.call(
+      "get",
+      async () => {
+        await this.store.get(key);
+        return true;
+      },
+      false,
+    );
+    return !readable;
+  }
+
+  async get(key: string): Promise<IdempotencyStoreValue | null> {
+    return this.call<IdempotencyStoreValue | null>("get", () => this.store.get(key), null);
+  }
+
+  async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
+    return this.call("update", () => this.store.update(key, value, ttlSeconds), undefined);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.call("delete", () => this.store.delete(key), false);
+  }
+
+  /** `open` while calls are short-circuited, `half_open` while a single trial call decides whether to close. */
+  circuitState(): ResilientStoreCircuitState {
+    return this.state;
+  }
+
+  private async call<T>(operation: ResilientStoreOperation, invoke: () => Promise<T>, fallback: T): Promise<T> {
+    if (!this.admit()) {
+      const error = new IdempotencyStoreUnavailableError(`Circuit is open; skipped store ${operation}`);
+      return this.fail(operation, error, fallback);
+    }
+
+    const attempts = RETRYABLE_OPERATIONS.has(operation) ? this.attempts : 1;
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        const result = await this.withTimeout(operation, invoke());
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!(error instanceof IdempotencyStoreUnavailableError) && !this.isFailure(error)) {
+          this.recordSuccess();
+          throw error;
+        }
+        if (attempt >= attempts) {
+          this.recordFailure();
+          return this.fail(operation, error, fallback);
+        }
+        await sleep(this.backoffDelay(attempt));
+      }
+    }
+  }
+
+  private fail<T>(operation: ResilientStoreOperation, error: unknown, fallback: T): T {
+    this.onFailure?.(operation, error);
+    if (this.failurePolicy === "fail_open") {
+      return fallback;
+    }
+    if (error instanceof IdempotencyStoreUnavailableError) {
+      throw error;
+    }
+    throw new IdempotencyStoreUnavailableError(`Store ${operation} failed: ${describeError(error)}`);
+  }
+
+  private withTimeout<T>(operation: ResilientStoreOperation, pending: Promise<T>): Promise<T> {
+    const override = this.operationTimeoutsMs[operation];
+    const timeoutMs = override === undefined ? this.timeoutMs : override;
+    if (timeoutMs === null) {
+      return pending;
+    }
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new IdempotencyStoreUnavailableError(`Store ${operation} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      pending.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error: unknown) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  // Full jitter spreads retries from many callers instead of letting them hit a recovering store together.
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.initialDelayMs * this.backoffFactor ** (attempt - 1));
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  private admit(): boolean {
+    if (this.state === "closed") {
+      return true;
+    }
+    if (this.state === "open" && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = "half_open";
+    }
+    if (this.state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  private recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  private recordFailure(): void {
+    this.trialInFlight = false;
+    if (this.failureThreshold === null) {
+      return;
+    }
+    this.consecutiveFailures += 1;
+    if (this.state === "half_open" || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
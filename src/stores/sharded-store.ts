@@ -0,0 +1,313 @@
+import { createHash } from "crypto";
+import { IdempotencyError } from "../errors.js";
+import type {
+  IdempotencyPurgeOptions,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+} from "../types.js";
+
+export interface ShardedStoreShard {
+  /** Stable name hashed onto the ring. Renaming a shard moves its keys, so keep it independent of addresses. */
+  readonly id: string;
+  readonly store: IdempotencyStore;
+  /** Relative share of the keyspace. Defaults to 1. */
+  readonly weight?: number;
+}
+
+export interface ShardedStoreOptions {
+  /** Ring points per unit of weight. More points spread keys more evenly. Defaults to 160. */
+  readonly virtualNodes?: number;
+  /** Consecutive failed calls after which a shard is reported unhealthy. Defaults to 3. */
+  readonly unhealthyAfter?: number;
+  readonly onShardError?: (shardId: string, error: unknown) => void;
+}
+
+export interface ShardedStoreShardHealth {
+  readonly id: string;
+  readonly weight: number;
+  readonly healthy: boolean;
+  readonly calls: number;
+  readonly failures: number;
+  readonly consecutiveFailures: number;
+  readonly lastError?: unknown;
+  /** Epoch milliseconds of the most recent failure. */
+  readonly lastFailureAt?: number;
+}
+
+interface ShardState {
+  readonly id: string;
+  readonly store: IdempotencyStore;
+  readonly weight: number;
+  calls: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: unknown;
+  lastFailureAt?: number;
+}
+
+interface RingPoint {
+  readonly hash: number;
+  readonly shard: number;
+}
+
+const DEFAULT_VIRTUAL_NODES = 160;
+const DEFAULT_UNHEALTHY_AFTER = 3;
+
+const hashOf = (value: string): number => createHash("md5").update(value, "utf8").digest().readUInt32BE(0);
+
+/**
+ * Routes each key to one of several independent stores with consistent hashing, so adding or removing a
+ * shard only moves the keys that hashed next to it. Every operation on a key goes to the same shard and a
+ * failing shard is reported rather than bypassed, because answering from another shard would forget the
+ * keys it holds. Optional methods are only exposed when every shard has them; batches are split per shard.
+ */
+export class ShardedIdempotencyStore implements IdempotencyStore {
+  readonly updateIfMatches?: IdempotencyStore["updateIfMatches"];
+  readonly compareAndSet?: IdempotencyStore["compareAndSet"];
+  readonly touch?: IdempotencyStore["touch"];
+  readonly watch?: IdempotencyStore["watch"];
+  readonly setManyIfAbsent?: IdempotencyStore["setManyIfAbsent"];
+  readonly scan?: IdempotencyStore["scan"];
+  readonly purgeExpired?: IdempotencyStore["purgeExpired"];
+
+  private readonly shards: ShardState[];
+  private readonly ring: RingPoint[];
+  private readonly unhealthyAfter: number;
+
+  constructor(shards: readonly ShardedStoreShard[], private readonly options: ShardedStoreOptions = {}) {
+    if (!Array.isArray(shards) || shards.length === 0) {
+      throw new IdempotencyError("At least one shard is required for ShardedIdempotencyStore");
+    }
+    const virtualNodes = options.virtualNodes ?? DEFAULT_VIRTUAL_NODES;
+    if (!Number.isInteger(virtualNodes) || virtualNodes < 1) {
+      throw new IdempotencyError("virtualNodes must be a positive integer when provided");
+    }
+    this.unhealthyAfter = options.unhealthyAfter ?? DEFAULT_UNHEALTHY_AFTER;
+    if (!Number.isInteger(this.unhealthyAfter) || this.unhealthyAfter < 1) {
+      throw new IdempotencyError("unhealthyAfter must be a positive integer when provided");
+    }
+
+    const ids = new Set<string>();
+    this.shards = shards.map(({ id, store, weight = 1 }) => {
+      if (typeof id !== "string" || id.length === 0 || ids.has(id)) {
+        throw new IdempotencyError(`Shard ids must be unique non-empty strings; got ${JSON.stringify(id)}`);
+      }
+      if (!Number.isFinite(weight) || weight <= 0) {
+        throw new IdempotencyError(`Shard ${id} must have a positive weight`);
+      }
+      ids.add(id);
+      return { id, store, weight, calls: 0, failures: 0, consecutiveFailures: 0 };
+    });
+
+    this.ring = this.shards
+      .flatMap(({ id, weight }, shard) =>
+        Array.from({ length: Math.max(1, Math.round(virtualNodes * weight)) }, (_, point) => ({
+          hash: hashOf(`${id}#${point}`),
+          shard,
+        })),
+      )
+      .sort((left, right) => left.hash - right.hash || left.shard - right.shard);
+
+    const stores = this.shards.map(({ store }) => store);
+    if (stores.every((store) => typeof store.updateIfMatches === "function")) {
+      this.updateIfMatches = (key, expectedValue, value, ttlSeconds) =>
+        this.route(key, (store) => store.updateIfMatches!(key, expectedValue, value, ttlSeconds));
+    }
+    if (stores.every((store) => typeof store.compareAndSet === "function")) {
+      this.compareAndSet = (key, expectedVersion, value, ttlSeconds) =>
+        this.route(key, (store) => store.compareAndSet!(key, expectedVersion, value, ttlSeconds));
+    }
+    if (stores.every((store) => typeof store.touch === "function")) {
+      this.touch = (key, ttlSeconds) => this.route(key, (store) => store.touch!(key, ttlSeconds));
+    }
+    if (stores.every((store) => typeof store.watch === "function")) {
+      this.watch = (key, onChange) => this.route(key, (store) => store.watch!(key, onChange));
+    }
+    if (stores.every((store) => typeof store.setManyIfAbsent === "function")) {
+      this.setManyIfAbsent = (entries: readonly IdempotencyStoreEntry[]) =>
+        this.batch(
+          entries.map(({ key }) => key),
+          (store, indexes) => store.setManyIfAbsent!(indexes.map((index) => entries[index])),
+        );
+    }
+    if (stores.every((store) => typeof store.scan === "function")) {
+      this.scan = (prefix: string, scanOptions?: IdempotencyScanOptions) => this.scanShards(prefix, scanOptions);
+    }
+    if (stores.every((store) => typeof store.purgeExpired === "function")) {
+      this.purgeExpired = async (purgeOptions?: IdempotencyPurgeOptions) => {
+        const removed = await Promise.all(
+          this.shards.map((shard) => this.invoke(shard, () => shard.store.purgeExpired!(purgeOptions))),
+        );
+        return removed.reduce((total, count) => total + count, 0);
+      };
+    }
+  }
+
+  async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
+    return this.route(key, (store) => store.setIfAbsent(key, value, ttlSeconds));
+  }
+
+  async get(key: string): Promise<IdempotencyStoreValue | null> {
+    return this.route(key, (store) => store.get(key));
+  }
+
+  async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
+    return this.route(key, (store) => store.update(key, value, ttlSeconds));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.route(key, (store) => store.delete(key));
+  }
+
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    return this.batch(keys, (store, indexes) => {
+      const shardKeys = indexes.map((index) => keys[index]);
+      return typeof store.getMany === "function"
+        ? store.getMany(shardKeys)
+        : Promise.all(shardKeys.map((key) => store.get(key)));
+    });
+  }
+
+  async deleteMany(keys: readonly string[]): Promise<number> {
+    const counts = await Promise.all(
+      Array.from(this.partition(keys), ([shard, indexes]) => {
+        const state = this.shards[shard];
+        const shardKeys = indexes.map((index) => keys[index]);
+        return this.invoke(state, async () => {
+          if (typeof state.store.deleteMany === "function") {
+            return state.store.deleteMany(shardKeys);
+          }
+          const deleted = await Promise.all(shardKeys.map((key) => state.store.delete(key)));
+          return deleted.filter(Boolean).length;
+        });
+      }),
+    );
+    return counts.reduce((total, count) => total + count, 0);
+  }
+
+  /** Id of the shard that owns `key`. */
+  shardFor(key: string): string {
+    return this.shards[this.locate(key)].id;
+  }
+
+  /** Call and failure counts per shard, in the order the shards were given. */
+  shardHealth(): ShardedStoreShardHealth[] {
+    return this.shards.map(({ id, weight, calls, failures, consecutiveFailures, lastError, lastFailureAt }) => ({
+      id,
+      weight,
+      healthy: consecutiveFailures < this.unhealthyAfter,
+      calls,
+      failures,
+      consecutiveFailures,
+      ...(lastFailureAt === undefined ? {} : { lastError, lastFailureAt }),
+    }));
+  }
+
+  private locate(key: string): number {
+    const hash = hashOf(key);
+    let low = 0;
+    let high = this.ring.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.ring[middle].hash < hash) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return this.ring[low === this.ring.length ? 0 : low].shard;
+  }
+
+  private route<T>(key: string, run: (store: IdempotencyStore) => Promise<T>): Promise<T> {
+    const shard = this.shards[this.locate(key)];
+    return this.invoke(shard, () => run(shard.store));
+  }
+
+  /** Positions of `keys` grouped by the shard that owns them. */
+  private partition(keys: readonly string[]): Map<number, number[]> {
+    const owned = new Map<number, number[]>();
+    keys.forEach((key, index) => {
+      const shard = this.locate(key);
+      owned.set(shard, [...(owned.get(shard) ?? []), index]);
+    });
+    return owned;
+  }
+
+  /** Sends each shard the positions of `keys` it owns and reassembles the per-shard results in input order. */
+  private async batch<T>(
+    keys: readonly string[],
+    run: (store: IdempotencyStore, indexes: number[]) => Promise<T[]>,
+  ): Promise<T[]> {
+    const results = new Array<T>(keys.length);
+    await Promise.all(
+      Array.from(this.partition(keys), async ([shard, indexes]) => {
+        const state = this.shards[shard];
+        const values = await this.invoke(state, () => run(state.store, indexes));
+        values.forEach((value, position) => {
+          results[indexes[position]] = value;
+        });
+      }),
+    );
+    return results;
+  }
+
+  /** Scans shards one after another. Cursors are prefixed with the shard position so a scan can resume. */
+  private async *scanShards(prefix: string, options: IdempotencyScanOptions = {}): AsyncIterable<IdempotencyScanEntry> {
+    let start = 0;
+    let cursor: string | undefined;
+    if (options.cursor !== undefined) {
+      const separator = options.cursor.indexOf(":");
+      start = separator < 0 ? Number.NaN : Number(options.cursor.slice(0, separator));
+      cursor = options.cursor.slice(separator + 1);
+      if (!Number.isInteger(start) || start < 0 || start >= this.shards.length) {
+        throw new IdempotencyError(`Invalid sharded scan cursor: ${options.cursor}`);
+      }
+    }
+
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    for (let shard = start; shard < this.shards.length && remaining > 0; shard += 1) {
+      const state = this.shards[shard];
+      const limit = Number.isFinite(remaining) ? remaining : undefined;
+      const entries = state.store.scan!(prefix, { cursor: shard === start ? cursor : undefined, limit });
+      try {
+        for await (const entry of entries) {
+          yield { ...entry, cursor: `${shard}:${entry.cursor}` };
+          remaining -= 1;
+          if (remaining <= 0) {
+            break;
+          }
+        }
+      } catch (error) {
+        this.recordFailure(state, error);
+        throw error;
+      }
+    }
+  }
+
+  private async invoke<T>(shard: ShardState, run: () => Promise<T>): Promise<T> {
+    shard.calls += 1;
+    try {
+      const result = await run();
+      shard.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      this.recordFailure(shard, error);
+      throw error;
+    }
+  }
+
+  private recordFailure(shard: ShardState, error: unknown): void {
+    shard.failures += 1;
+    shard.consecutiveFailures += 1;
+    shard.lastError = error;
+    shard.lastFailureAt = Date.now();
+    try {
+      this.options.onShardError?.(shard.id, error);
+    } catch {
+      // A failing error callback must not replace the error the shard raised.
+    }
+  }
+}
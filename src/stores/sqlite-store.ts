@@ -1,5 +1,15 @@
 import { IdempotencyError } from "../errors.js";
-import type { IdempotencyStore, IdempotencyStoreValue, SqliteDatabaseLike, SqliteRunResult } from "../types.js";
+import { purgeInBatches } from "./purge.js";
+import { initialVersion } from "./version.js";
+import type {
+  IdempotencyPurgeOptions,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreValue,
+  SqliteDatabaseLike,
+  SqliteRunResult,
+} from "../types.js";
 
 interface SqliteStoreOptions {
   readonly tableName?: string;
@@ -9,6 +19,7 @@ interface SqliteStoreOptions {
 interface SqliteRow {
   value: string;
   expires_at: number | null;
+  version: number;
 }
 
 const DEFAULT_TABLE = "steadykey_entries";
@@ -43,6 +54,12 @@ const ttlFromEpoch = (epochSeconds: number | null): number | null => {
   return remaining > 0 ? remaining : 0;
 };
 
+const toStoreValue = (row: SqliteRow): IdempotencyStoreValue => ({
+  value: row.value,
+  ttlSeconds: ttlFromEpoch(row.expires_at ?? null),
+  version: String(row.version),
+});
+
 export class SqliteIdempotencyStore implements IdempotencyStore {
   private readonly table: string;
   private readonly ready: Promise<void>;
@@ -67,12 +84,21 @@ export class SqliteIdempotencyStore implements IdempotencyStore {
       CREATE TABLE IF NOT EXISTS ${this.table} (
         key TEXT PRIMARY KEY,
         value TEXT NOT NULL,
-        expires_at INTEGER NULL
+        expires_at INTEGER NULL,
+        version INTEGER NOT NULL DEFAULT 0
       );
       CREATE INDEX IF NOT EXISTS ${this.table.replace(/"/g, "").replace(/\./g, "_")}_expires_at_idx
         ON ${this.table} (expires_at);
     `;
     await maybeAwait(this.db.exec(ddl));
+    try {
+      // Tables created before versions were tracked lack the column; SQLite has no ADD COLUMN IF NOT EXISTS.
+      await maybeAwait(this.db.exec(`ALTER TABLE ${this.table} ADD COLUMN version INTEGER NOT NULL DEFAULT 0`));
+    } catch (error) {
+      if (!/duplicate column/i.test(String((error as Error)?.message))) {
+        throw error;
+      }
+    }
   }
 
   async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
@@ -80,10 +106,10 @@ export class SqliteIdempotencyStore implements IdempotencyStore {
     const expiresAt = expirationEpoch(ttlSeconds);
     const result = await maybeAwait<SqliteRunResult>(
       this.db.run(
-        `INSERT INTO ${this.table} (key, value, expires_at)
-         VALUES (?, ?, ?)
+        `INSERT INTO ${this.table} (key, value, expires_at, version)
+         VALUES (?, ?, ?, ?)
          ON CONFLICT (key) DO NOTHING`,
-        [key, value, expiresAt],
+        [key, value, expiresAt, initialVersion()],
       ),
     );
     return Boolean(result.changes && result.changes > 0);
@@ -93,7 +119,7 @@ export class SqliteIdempotencyStore implements IdempotencyStore {
     await this.ready;
     const row = await maybeAwait<SqliteRow | undefined>(
       this.db.get<SqliteRow>(
-        `SELECT value, expires_at FROM ${this.table}
+        `SELECT value, expires_at, version FROM ${this.table}
          WHERE key = ?
            AND (expires_at IS NULL OR expires_at > STRFTIME('%s', 'now'))
          LIMIT 1`,
@@ -101,14 +127,7 @@ export class SqliteIdempotencyStore implements IdempotencyStore {
       ),
     );
 
-    if (!row) {
-      return null;
-    }
-
-    return {
-      value: row.value,
-      ttlSeconds: ttlFromEpoch(row.expires_at ?? null),
-    };
+    return row ? toStoreValue(row) : null;
   }
 
   async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
@@ -118,7 +137,8 @@ export class SqliteIdempotencyStore implements IdempotencyStore {
       this.db.run(
         `UPDATE ${this.table}
            SET value = ?,
-               expires_at = ?
+               expires_at = ?,
+               version = version + 1
          WHERE key = ?`,
         [value, expiresAt, key],
       ),
@@ -129,6 +149,67 @@ export class SqliteIdempotencyStore implements IdempotencyStore {
     }
   }
 
+  async updateIfMatches(
+    key: string,
+    expectedValue: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = expirationEpoch(ttlSeconds);
+    const result = await maybeAwait<SqliteRunResult>(
+      this.db.run(
+        `UPDATE ${this.table}
+           SET value = ?,
+               expires_at = ?,
+               version = version + 1
+         WHERE key = ?
+           AND value = ?
+           AND (expires_at IS NULL OR expires_at > STRFTIME('%s', 'now'))`,
+        [value, expiresAt, key, expectedValue],
+      ),
+    );
+    return Boolean(result.changes && result.changes > 0);
+  }
+
+  async compareAndSet(
+    key: string,
+    expectedVersion: string,
+    value: string,
+    ttlSeconds: number | null,
+  ): Promise<boolean> {
+    await this.ready;
+    const expiresAt = expirationEpoch(ttlSeconds);
+    const result = await maybeAwait<SqliteRunResult>(
+      this.db.run(
+        `UPDATE ${this.table}
+           SET value = ?,
+               expires_at = ?,
+               version = version + 1
+         WHERE key = ?
+           AND version = ?
+           AND (expires_at IS NULL OR expires_at > STRFTIME('%s', 'now'))`,
+        [value, expiresAt, key, Number(expectedVersion)],
+      ),
+    );
+    return Boolean(result.changes && result.changes > 0);
+  }
+
+  async touch(key: string, ttlSeconds: number | null): Promise<boolean> {
+    await this.ready;
+    const result = await maybeAwait<SqliteRunResult>(
+      this.db.run(
+        `UPDATE ${this.table}
+           SET expires_at = ?,
+               version = version + 1
+         WHERE key = ?
+           AND (expires_at IS NULL OR expires_at > STRFTIME('%s', 'now'))`,
+        [expirationEpoch(ttlSeconds), key],
+      ),
+    );
+    return Boolean(result.changes && result.changes > 0);
+  }
+
   async delete(key: string): Promise<boolean> {
     await this.ready;
     const result = await maybeAwait<SqliteRunResult>(
@@ -136,4 +217,63 @@ export class SqliteIdempotencyStore implements IdempotencyStore {
     );
     return Boolean(result.changes && result.changes > 0);
   }
+
+  /**
+   * Walks matching keys in key order one row at a time, since the database handle only exposes
+   * single-row reads. `substr` keeps the prefix match case-sensitive, unlike SQLite's `LIKE`.
+   */
+  async *scan(prefix: string, options: IdempotencyScanOptions = {}): AsyncGenerator<IdempotencyScanEntry> {
+    await this.ready;
+    let cursor = options.cursor ?? "";
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY;
+    while (remaining > 0) {
+      const row = await maybeAwait<(SqliteRow & { key: string }) | undefined>(
+        this.db.get<SqliteRow & { key: string }>(
+          `SELECT key, value, expires_at, version FROM ${this.table}
+           WHERE substr(key, 1, ?) = ?
+             AND key > ?
+             AND (expires_at IS NULL OR expires_at > STRFTIME('%s', 'now'))
+           ORDER BY key
+           LIMIT 1`,
+          [prefix.length, prefix, cursor],
+        ),
+      );
+      if (!row) {
+        return;
+      }
+      remaining -= 1;
+      cursor = row.key;
+      yield { key: row.key, ...toStoreValue(row), cursor: row.key };
+    }
+  }
+
+  async purgeExpired(options: IdempotencyPurgeOptions = {}): Promise<number> {
+    await this.ready;
+    return purgeInBatches(options, async (limit) => {
+      const result = await maybeAwait<SqliteRunResult>(
+        this.db.run(
+          `DELETE FROM ${this.table}
+           WHERE rowid IN (
+             SELECT rowid FROM ${this.table}
+             WHERE expires_at IS NOT NULL AND expires_at <= STRFTIME('%s', 'now')
+             LIMIT ?
+           )`,
+          [limit],
+        ),
+      );
+      return result.changes ?? 0;
+    });
+  }
+
+  async deleteMany(keys: readonly string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+    await this.ready;
+    const placeholders = keys.map(() => "?").join(", ");
+    const result = await maybeAwait<SqliteRunResult>(
+      this.db.run(`DELETE FROM ${this.table} WHERE key IN (${placeholders})`, [...keys]),
+    );
+    return result.changes ?? 0;
+  }
 }
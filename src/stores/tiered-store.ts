@@ -0,0 +1,183 @@
+import { IdempotencyError } from "../errors.js";
+import { InMemoryIdempotencyStore } from "./in-memory-store.js";
+import type {
+  IdempotencyPurgeOptions,
+  IdempotencyScanEntry,
+  IdempotencyScanOptions,
+  IdempotencyStore,
+  IdempotencyStoreEntry,
+  IdempotencyStoreValue,
+} from "../types.js";
+
+export interface TieredStoreOptions {
+  /** Entries kept in the local cache. Defaults to 1000. */
+  readonly maxEntries?: number;
+  /**
+   * Upper bound on how long an entry is served from the local cache, which is also how long a change
+   * made by another process can go unnoticed when the remote store cannot push notifications. Defaults to 5.
+   */
+  readonly cacheTtlSeconds?: number;
+}
+
+/** Cached form of a remote entry, keeping the remote expiry and version rather than the cache's own. */
+interface CachedEntry {
+  readonly value: string;
+  readonly version?: string;
+  /** Epoch milliseconds; `null` for persistent entries, absent when the remote store does not report TTLs. */
+  readonly expiresAt?: number | null;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_CACHE_TTL_SECONDS = 5;
+
+/**
+ * Serves repeated reads from a bounded in-process LRU in front of an authoritative remote store. Only
+ * entries read from the remote store are cached, together with their version. Every write goes to the
+ * remote store and drops the cached entry, since the remote store does not report the version it assigned.
+ */
+export class TieredIdempotencyStore implements IdempotencyStore {
+  readonly updateIfMatches?: IdempotencyStore["updateIfMatches"];
+  readonly compareAndSet?: IdempotencyStore["compareAndSet"];
+  readonly touch?: IdempotencyStore["touch"];
+  readonly watch?: IdempotencyStore["watch"];
+  readonly setManyIfAbsent?: IdempotencyStore["setManyIfAbsent"];
+  readonly deleteMany?: IdempotencyStore["deleteMany"];
+  readonly scan?: IdempotencyStore["scan"];
+  readonly purgeExpired?: IdempotencyStore["purgeExpired"];
+
+  private readonly cache: InMemoryIdempotencyStore;
+  private readonly cacheTtlSeconds: number;
+
+  constructor(private readonly remote: IdempotencyStore, options: TieredStoreOptions = {}) {
+    if (!remote) {
+      throw new IdempotencyError("A remote store is required for TieredIdempotencyStore");
+    }
+    const cacheTtlSeconds = options.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS;
+    if (!Number.isInteger(cacheTtlSeconds) || cacheTtlSeconds <= 0) {
+      throw new IdempotencyError("cacheTtlSeconds must be a positive integer when provided");
+    }
+    this.cacheTtlSeconds = cacheTtlSeconds;
+    this.cache = new InMemoryIdempotencyStore({ maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES });
+
+    const { updateIfMatches, compareAndSet, touch, watch, setManyIfAbsent, deleteMany, scan, purgeExpired } = remote;
+    if (updateIfMatches) {
+      this.updateIfMatches = (key, expectedValue, value, ttlSeconds) =>
+        this.writeThrough(key, () => updateIfMatches.call(remote, key, expectedValue, value, ttlSeconds));
+    }
+    if (compareAndSet) {
+      this.compareAndSet = (key, expectedVersion, value, ttlSeconds) =>
+        this.writeThrough(key, () => compareAndSet.call(remote, key, expectedVersion, value, ttlSeconds));
+    }
+    if (touch) {
+      this.touch = (key, ttlSeconds) => this.writeThrough(key, () => touch.call(remote, key, ttlSeconds));
+    }
+    if (watch) {
+      this.watch = (key, onChange) =>
+        watch.call(remote, key, () => {
+          void this.cache.delete(key);
+          onChange();
+        });
+    }
+    if (setManyIfAbsent) {
+      this.setManyIfAbsent = async (entries: readonly IdempotencyStoreEntry[]) => {
+        try {
+          return await setManyIfAbsent.call(remote, entries);
+        } finally {
+          await this.cache.deleteMany(entries.map(({ key }) => key));
+        }
+      };
+    }
+    if (deleteMany) {
+      this.deleteMany = async (keys: readonly string[]) => {
+        await this.cache.deleteMany(keys);
+        return deleteMany.call(remote, keys);
+      };
+    }
+    if (scan) {
+      this.scan = (prefix: string, scanOptions?: IdempotencyScanOptions): AsyncIterable<IdempotencyScanEntry> =>
+        scan.call(remote, prefix, scanOptions);
+    }
+    if (purgeExpired) {
+      this.purgeExpired = (purgeOptions?: IdempotencyPurgeOptions) => purgeExpired.call(remote, purgeOptions);
+    }
+  }
+
+  async setIfAbsent(key: string, value: string, ttlSeconds: number | null): Promise<boolean> {
+    return this.writeThrough(key, () => this.remote.setIfAbsent(key, value, ttlSeconds));
+  }
+
+  async get(key: string): Promise<IdempotencyStoreValue | null> {
+    const cached = await this.recall(key);
+    if (cached) {
+      return cached;
+    }
+    const stored = await this.remote.get(key);
+    if (stored) {
+      await this.remember(key, stored);
+    }
+    return stored;
+  }
+
+  async getMany(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]> {
+    const results = await Promise.all(keys.map((key) => this.recall(key)));
+    const missing = Array.from(new Set(keys.filter((_, index) => results[index] === null)));
+    if (missing.length === 0) {
+      return results;
+    }
+
+    const fetched =
+      typeof this.remote.getMany === "function"
+        ? await this.remote.getMany(missing)
+        : await Promise.all(missing.map((key) => this.remote.get(key)));
+    const byKey = new Map(missing.map((key, index) => [key, fetched[index]]));
+    for (const [key, stored] of byKey) {
+      if (stored) {
+        await this.remember(key, stored);
+      }
+    }
+    return keys.map((key, index) => results[index] ?? byKey.get(key) ?? null);
+  }
+
+  async update(key: string, value: string, ttlSeconds: number | null): Promise<void> {
+    await this.writeThrough(key, () => this.remote.update(key, value, ttlSeconds));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.cache.delete(key);
+    return this.remote.delete(key);
+  }
+
+  // Dropping the entry once the write settles also discards anything a concurrent read cached meanwhile.
+  private async writeThrough<T>(key: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } finally {
+      await this.cache.delete(key);
+    }
+  }
+
+  private async recall(key: string): Promise<IdempotencyStoreValue | null> {
+    const cached = await this.cache.get(key);
+    if (!cached) {
+      return null;
+    }
+    const { value, version, expiresAt } = JSON.parse(cached.value) as CachedEntry;
+    if (typeof expiresAt !== "number") {
+      return { value, ttlSeconds: expiresAt, version };
+    }
+    const ttlSeconds = Math.floor((expiresAt - Date.now()) / 1000);
+    return ttlSeconds > 0 ? { value, ttlSeconds, version } : null;
+  }
+
+  private async remember(key: string, stored: IdempotencyStoreValue): Promise<void> {
+    const { ttlSeconds } = stored;
+    if (ttlSeconds === 0) {
+      return;
+    }
+    const expiresAt = typeof ttlSeconds === "number" ? Date.now() + ttlSeconds * 1000 : ttlSeconds;
+    const entry: CachedEntry = { value: stored.value, version: stored.version, expiresAt };
+    const cacheTtl = typeof ttlSeconds === "number" ? Math.min(ttlSeconds, this.cacheTtlSeconds) : this.cacheTtlSeconds;
+    await this.cache.delete(key);
+    await this.cache.setIfAbsent(key, JSON.stringify(entry), cacheTtl);
+  }
+}
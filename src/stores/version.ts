@@ -0,0 +1,11 @@
+import { randomInt } from "crypto";
+
+// Keeps the version and every increment on it well inside Number.MAX_SAFE_INTEGER.
+const MAX_INITIAL_VERSION = 2 ** 47;
+
+/**
+ * Version stored with a newly inserted key; every later write increments it. Starting each insert at a
+ * random point means a key that is deleted and created again does not repeat versions an earlier reader
+ * saw, so a stale `compareAndSet` cannot land on the new entry.
+ */
+export const initialVersion = (): number => randomInt(1, MAX_INITIAL_VERSION);
@@ -1,4 +1,11 @@
-export type HashAlgorithm = "sha256" | "sha512";
+export type HashAlgorithm = "sha256" | "sha512" | "sha3-256" | "sha3-512" | "blake2b512";
+
+export type HashEncoding = "hex" | "base64url" | "base32";
+
+/**
+ * `steadykey` is the original format. `jcs` follows RFC 8785 so keys match other JCS implementations.
+ */
+export type CanonicalizationMode = "steadykey" | "jcs";
 
 export type JsonPrimitive = string | number | boolean | null;
 
@@ -6,25 +13,214 @@ export type JsonValue = JsonPrimitive | { [key: string]: JsonValue } | JsonValue
 
 export type IdempotencyMetadata = JsonValue;
 
+/**
+ * Canonicalizes values of a custom type. Matching values are written as `"<tag>:<serialize(value)>"`,
+ * so the tag keeps them distinct from other types that serialize to the same string.
+ */
+export interface TypeSerializer<T = unknown> {
+  readonly tag: string;
+  test(value: unknown): value is T;
+  serialize(value: T): string;
+}
+
+export interface FieldSelection {
+  readonly include?: readonly string[];
+  readonly exclude?: readonly string[];
+}
+
+export type IdempotencyStatus = "in_progress" | "completed" | "failed";
+
+export type IdempotencyResultBody =
+  | { readonly encoding: "json"; readonly data: JsonValue }
+  | { readonly encoding: "base64"; readonly data: string };
+
+export interface IdempotencyResult {
+  readonly statusCode?: number;
+  readonly headers?: Record<string, string | string[]>;
+  readonly body?: IdempotencyResultBody;
+}
+
+/** A secret used for keyed (HMAC) hashing. The id is stored on records so rotated secrets can be told apart. */
+export interface HmacKey {
+  readonly id: string;
+  readonly secret: string | Uint8Array;
+}
+
+export type CompressionAlgorithm = "gzip" | "brotli";
+
+export interface RecordCompressionOptions {
+  readonly algorithm: CompressionAlgorithm;
+  /** Serialized records smaller than this stay uncompressed. Defaults to 1024 bytes. */
+  readonly thresholdBytes?: number;
+}
+
+/** A 32-byte AES-256-GCM key encryption key. The id is stored with each envelope to support rotation. */
+export interface EncryptionKey {
+  readonly id: string;
+  readonly key: Uint8Array;
+}
+
+/** Envelope holding the encrypted canonical payload, metadata and result of a record. */
+export interface IdempotencyEncryptedFields {
+  readonly keyId: string;
+  /** Per-record data key, wrapped with the key named by `keyId`. */
+  readonly dataKey: string;
+  readonly data: string;
+}
+
+export interface IdempotencyLease {
+  readonly token: string;
+  readonly expiresAt: string;
+}
+
+/**
+ * Identifies the canonicalization rules and hash algorithm that produced a key. Formats above
+ * version 1 are embedded in generated ids (`v2:<hash>`) so keys from different formats never mix.
+ */
+export interface CanonicalFormat {
+  readonly version: number;
+  readonly canonicalization?: CanonicalizationMode;
+  readonly hashAlgorithm?: HashAlgorithm;
+  readonly hashEncoding?: HashEncoding;
+  readonly truncateBytes?: number;
+  /** Secrets for keyed hashing. The first signs new keys; the rest are still accepted during rotation. */
+  readonly hmacKeys?: readonly HmacKey[];
+}
+
 export interface IdempotencyManagerOptions {
   readonly keyPrefix?: string;
   readonly defaultTtlSeconds?: number | null;
   readonly hashAlgorithm?: HashAlgorithm;
+  /** Text encoding of payload hashes and generated ids. Defaults to `hex`. */
+  readonly hashEncoding?: HashEncoding;
+  /**
+   * Keeps only the first `truncateBytes` bytes of the digest to shorten keys. Values below 8 are
+   * rejected and values below 16 emit a process warning because collisions become plausible.
+   */
+  readonly truncateBytes?: number;
   readonly storeCanonicalPayload?: boolean;
+  readonly maxResultBytes?: number | null;
+  readonly leaseSeconds?: number | null;
+  readonly fieldSelection?: FieldSelection;
+  readonly serializers?: readonly TypeSerializer[];
+  readonly canonicalization?: CanonicalizationMode;
+  readonly formatVersion?: number;
+  /**
+   * Switches key hashing to HMAC so keys cannot be derived from guessed payloads. New keys are
+   * signed with the first secret; every listed secret is tried for lookups and duplicate detection.
+   */
+  readonly hmacKeys?: readonly HmacKey[];
+  /**
+   * Encrypts canonical payloads, metadata and results at rest. New records use the first key; the
+   * remaining keys only decrypt records written before a rotation. Ids and payload hashes stay readable.
+   */
+  readonly encryptionKeys?: readonly EncryptionKey[];
+  /**
+   * Compresses large records before they reach the store. Compressed records are written as a small
+   * JSON envelope, and records written without compression keep deserializing. With `encryptionKeys`,
+   * the encrypted fields are compressed before they are sealed.
+   */
+  readonly compression?: RecordCompressionOptions;
+  /**
+   * Formats still honoured for lookups and duplicate detection while keys written by an older
+   * release expire.
+   */
+  readonly previousFormats?: readonly CanonicalFormat[];
+  /** Receives an event for every registration, lookup, clear and failed store call. */
+  readonly instrumentation?: IdempotencyInstrumentation;
+}
+
+export type IdempotencyEventType =
+  | "register_stored"
+  | "register_duplicate"
+  | "collision"
+  | "lookup_hit"
+  | "lookup_miss"
+  | "clear"
+  | "store_call"
+  | "store_error";
+
+export interface IdempotencyEvent {
+  readonly type: IdempotencyEventType;
+  /** Store key the event concerns, when there is a single one. */
+  readonly key?: string;
+  /** Time from the start of the operation until the event, in milliseconds. */
+  readonly durationMs: number;
+  /**
+   * Store method called, on `store_call` events for calls that succeeded and `store_error` events for calls
+   * that failed.
+   */
+  readonly operation?: string;
+  readonly error?: unknown;
+}
+
+export interface IdempotencyInstrumentation {
+  /** Called synchronously as events happen. Errors thrown here are swallowed. */
+  onEvent(event: IdempotencyEvent): void;
+}
+
+export interface IdempotencyWaitOptions {
+  readonly timeoutMs?: number;
+  readonly initialDelayMs?: number;
+  readonly maxDelayMs?: number;
+  readonly backoffFactor?: number;
 }
 
 export interface IdempotencyRegisterOptions {
   readonly ttlSeconds?: number | null;
   readonly metadata?: IdempotencyMetadata;
   readonly storeCanonicalPayload?: boolean;
+  readonly leaseSeconds?: number | null;
+  readonly wait?: boolean | IdempotencyWaitOptions;
+}
+
+export interface IdempotencyKeyedRegisterOptions extends IdempotencyRegisterOptions {
+  /**
+   * Keeps the same client key apart across operations, for example one scope per endpoint. At most 64
+   * characters without `:`, so that with the hashed client key the store key stays within backend limits.
+   */
+  readonly scope?: string;
+}
+
+export type IdempotencyRunErrorPolicy = "clear" | "fail";
+
+export interface IdempotencyRunOptions extends IdempotencyRegisterOptions {
+  readonly onError?: IdempotencyRunErrorPolicy;
+}
+
+export interface IdempotencyTransitionOptions {
+  readonly ttlSeconds?: number | null;
+  readonly metadata?: IdempotencyMetadata;
+  readonly result?: IdempotencyResult;
+  readonly leaseToken?: string;
+}
+
+export interface IdempotencyHeartbeatOptions {
+  readonly intervalMs?: number;
+  readonly leaseSeconds?: number;
+  readonly onLost?: (error: unknown) => void;
+}
+
+export interface IdempotencyHeartbeat {
+  stop(): void;
 }
 
 export interface IdempotencyRecord {
   readonly id: string;
   readonly payloadHash: string;
   readonly createdAt: string;
+  readonly status: IdempotencyStatus;
+  readonly formatVersion: number;
+  readonly canonicalization?: CanonicalizationMode;
+  readonly hashAlgorithm?: HashAlgorithm;
+  readonly hmacKeyId?: string;
+  readonly updatedAt?: string;
+  readonly lease?: IdempotencyLease;
+  readonly fieldSelection?: FieldSelection;
   readonly metadata?: IdempotencyMetadata;
   readonly canonicalPayload?: string;
+  readonly result?: IdempotencyResult;
+  readonly encrypted?: IdempotencyEncryptedFields;
   readonly ttlSeconds?: number | null;
 }
 
@@ -35,16 +231,86 @@ export interface IdempotencyRegistrationResult {
   readonly record: IdempotencyRecord;
 }
 
+export interface IdempotencyRunResult<T extends JsonValue> {
+  readonly id: string;
+  readonly key: string;
+  readonly executed: boolean;
+  readonly value: T;
+  readonly record: IdempotencyRecord;
+}
+
 export interface IdempotencyLookupResult {
   readonly id: string;
   readonly key: string;
   readonly record: IdempotencyRecord;
   readonly ttlSeconds?: number | null;
+  /**
+   * `false` when the record was written with different include/exclude rules than the manager uses now.
+   */
+  readonly fieldSelectionMatches: boolean;
 }
 
 export interface IdempotencyStoreValue {
   readonly value: string;
   readonly ttlSeconds?: number | null;
+  /** Opaque token that changes whenever the entry is written. Stores that support `compareAndSet` return it. */
+  readonly version?: string;
+}
+
+export interface IdempotencyScanOptions {
+  /** Resumes after the entry that carried this cursor. */
+  readonly cursor?: string;
+  /** Maximum number of entries to yield. */
+  readonly limit?: number;
+}
+
+export interface IdempotencyScanEntry extends IdempotencyStoreValue {
+  readonly key: string;
+  /** Pass back as `cursor` to continue the scan after this entry. */
+  readonly cursor: string;
+}
+
+export interface IdempotencyListOptions extends IdempotencyScanOptions {
+  /** Restricts the listing to ids starting with this value. */
+  readonly prefix?: string;
+}
+
+export interface IdempotencyListedRecord extends IdempotencyLookupResult {
+  readonly cursor: string;
+}
+
+export interface IdempotencyPurgeOptions {
+  /** Maximum rows removed per delete statement. Defaults to 1000. */
+  readonly batchSize?: number;
+}
+
+export interface IdempotencyExpirySweeperOptions extends IdempotencyPurgeOptions {
+  /** Delay between sweeps. Defaults to one minute. */
+  readonly intervalMs?: number;
+  readonly onSweep?: (removed: number, metrics: IdempotencyExpirySweeperMetrics) => void;
+  readonly onError?: (error: unknown) => void;
+}
+
+export interface IdempotencyExpirySweeperMetrics {
+  readonly runs: number;
+  readonly failures: number;
+  readonly rowsRemoved: number;
+  readonly lastRowsRemoved: number;
+  readonly lastRunAt: string | null;
+  readonly lastDurationMs: number | null;
+}
+
+export interface IdempotencyExpirySweeper {
+  /** Runs a sweep immediately, unless one is already in progress. */
+  sweep(): Promise<number>;
+  metrics(): IdempotencyExpirySweeperMetrics;
+  stop(): void;
+}
+
+export interface IdempotencyStoreEntry {
+  readonly key: string;
+  readonly value: string;
+  readonly ttlSeconds: number | null;
 }
 
 export interface IdempotencyStore {
@@ -52,6 +318,45 @@ export interface IdempotencyStore {
   get(key: string): Promise<IdempotencyStoreValue | null>;
   update(key: string, value: string, ttlSeconds: number | null): Promise<void>;
   delete(key: string): Promise<boolean>;
+  /**
+   * Atomically replaces the value stored under `key` only when it still equals `expectedValue`.
+   * Resolves to `false` when the key is missing, expired or holds a different value.
+   */
+  updateIfMatches?(key: string, expectedValue: string, value: string, ttlSeconds: number | null): Promise<boolean>;
+  /**
+   * Atomically replaces the value under `key` only when its current `version` equals `expectedVersion`.
+   * Resolves to `false` when the key is missing, expired or was written since that version was read.
+   */
+  compareAndSet?(key: string, expectedVersion: string, value: string, ttlSeconds: number | null): Promise<boolean>;
+  /**
+   * Changes the expiry of `key` without rewriting its value; `null` makes the entry persistent.
+   * Resolves to `false` when the key is missing or expired.
+   */
+  touch?(key: string, ttlSeconds: number | null): Promise<boolean>;
+  /**
+   * Invokes `onChange` whenever the value under `key` may have changed. Resolves to a function that
+   * removes the subscription. Stores without a push mechanism omit this and callers fall back to polling.
+   */
+  watch?(key: string, onChange: () => void): Promise<() => Promise<void>>;
+  /**
+   * Batched {@link setIfAbsent}. Resolves to one flag per entry, in input order. Callers never pass the
+   * same key twice in one batch. Stores without it receive one `setIfAbsent` call per entry.
+   */
+  setManyIfAbsent?(entries: readonly IdempotencyStoreEntry[]): Promise<boolean[]>;
+  /** Batched {@link get}. Resolves to one value or `null` per key, in input order. */
+  getMany?(keys: readonly string[]): Promise<(IdempotencyStoreValue | null)[]>;
+  /** Batched {@link delete}. Resolves to the number of keys that were removed. */
+  deleteMany?(keys: readonly string[]): Promise<number>;
+  /**
+   * Yields live entries whose key starts with `prefix`, skipping expired ones. Ordering is store
+   * specific but stable enough for the yielded cursors to resume an interrupted scan.
+   */
+  scan?(prefix: string, options?: IdempotencyScanOptions): AsyncIterable<IdempotencyScanEntry>;
+  /**
+   * Deletes expired entries in batches and resolves to the number removed. Implemented by stores
+   * whose backend does not expire entries on its own.
+   */
+  purgeExpired?(options?: IdempotencyPurgeOptions): Promise<number>;
 }
 
 export interface MemcachedClientLike {
@@ -73,12 +378,21 @@ export interface MySqlClientLike {
 export interface MongoCollectionLike<TDocument> {
   findOne(filter: Record<string, unknown>): Promise<TDocument | null>;
   insertOne(doc: TDocument): Promise<{ acknowledged: boolean }>;
+  /** Optional; batch inserts fall back to one `insertOne` per document without it. */
+  insertMany?(docs: TDocument[], options?: { ordered?: boolean }): Promise<{ insertedCount: number }>;
+  /** Optional; batch reads fall back to `findOne` without it, and `scan` and `purgeExpired` need it. */
+  find?(
+    filter: Record<string, unknown>,
+    options?: { sort?: Record<string, 1 | -1>; limit?: number },
+  ): { toArray(): Promise<TDocument[]> };
   updateOne(
     filter: Record<string, unknown>,
     update: Record<string, unknown>,
     options?: { upsert?: boolean },
   ): Promise<{ matchedCount: number; modifiedCount: number }>;
   deleteOne(filter: Record<string, unknown>): Promise<{ deletedCount?: number }>;
+  /** Optional; batch deletes fall back to `deleteOne` without it, and `purgeExpired` needs it. */
+  deleteMany?(filter: Record<string, unknown>): Promise<{ deletedCount?: number }>;
   createIndex(keys: Record<string, unknown>, options?: Record<string, unknown>): Promise<string>;
 }
 
@@ -127,4 +441,43 @@ export interface DynamoDbClientLike {
     ExpressionAttributeValues?: Record<string, unknown>;
     ReturnValues?: string;
   }): Promise<{ Attributes?: Record<string, unknown> | undefined } | undefined>;
+  /** Optional; batch reads fall back to one `get` per key without it. */
+  batchGet?(params: {
+    RequestItems: Record<string, DynamoDbKeysAndAttributes>;
+  }): Promise<
+    | {
+        Responses?: Record<string, Record<string, unknown>[]>;
+        UnprocessedKeys?: Record<string, DynamoDbKeysAndAttributes>;
+      }
+    | undefined
+  >;
+  /** Optional; the store only offers `scan` when the client has it. */
+  scan?(params: {
+    TableName: string;
+    FilterExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, unknown>;
+    ExclusiveStartKey?: Record<string, unknown>;
+    Limit?: number;
+    ConsistentRead?: boolean;
+  }): Promise<
+    | { Items?: Record<string, unknown>[]; LastEvaluatedKey?: Record<string, unknown> | undefined }
+    | undefined
+  >;
+  /** Optional; batch inserts fall back to one conditional `put` per entry without it. */
+  transactWrite?(params: {
+    TransactItems: {
+      Put: {
+        TableName: string;
+        Item: Record<string, unknown>;
+        ConditionExpression?: string;
+        ExpressionAttributeNames?: Record<string, string>;
+      };
+    }[];
+  }): Promise<unknown>;
+}
+
+export interface DynamoDbKeysAndAttributes {
+  Keys: Record<string, unknown>[];
+  ConsistentRead?: boolean;
 }
@@ -1,11 +1,39 @@
-import { createHash } from "crypto";
+import { createHash, createHmac } from "crypto";
 import { IdempotencySerializationError, IdempotencyError } from "./errors.js";
-import type { HashAlgorithm, IdempotencyRecord } from "./types.js";
+import { compileFieldSelection, projectValue } from "./projection.js";
+import { decryptRecord, encryptRecord } from "./encryption.js";
+import { compressJson, decompressEnvelope } from "./compression.js";
+import type {
+  CanonicalizationMode,
+  EncryptionKey,
+  FieldSelection,
+  HashAlgorithm,
+  HashEncoding,
+  HmacKey,
+  IdempotencyRecord,
+  RecordCompressionOptions,
+  TypeSerializer,
+} from "./types.js";
 
 const BIGINT_PREFIX = "bigint:";
 const BUFFER_PREFIX = "buffer:";
 const MAP_PREFIX = "map:";
 const SET_PREFIX = "set:";
+const TYPED_ARRAY_PREFIX = "typedarray:";
+const URL_PREFIX = "url:";
+const RESERVED_TAGS = new Set(["bigint", "buffer", "map", "set", "typedarray", "url"]);
+const SERIALIZER_TAG_PATTERN = /^[A-Za-z][A-Za-z0-9_.-]*$/;
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+const DIGEST_BYTES: Record<HashAlgorithm, number> = {
+  sha256: 32,
+  sha512: 64,
+  "sha3-256": 32,
+  "sha3-512": 64,
+  blake2b512: 64,
+};
+
+export const MIN_TRUNCATE_BYTES = 8;
+export const RECOMMENDED_MIN_TRUNCATE_BYTES = 16;
 
 export type CanonicalJsonValue =
   | string
@@ -17,12 +45,136 @@ export type CanonicalJsonValue =
 
 export interface SerializeRecordInput {
   readonly record: IdempotencyRecord;
+  /** When non-empty, sensitive fields are sealed with the first key before the record is written. */
+  readonly encryptionKeys?: readonly EncryptionKey[];
+  readonly compression?: RecordCompressionOptions;
+}
+
+export interface HashOptions {
+  readonly hmacKey?: HmacKey;
+  readonly encoding?: HashEncoding;
+  readonly truncateBytes?: number;
+}
+
+export interface CanonicalizeOptions {
+  readonly fieldSelection?: FieldSelection;
+  readonly serializers?: readonly TypeSerializer[];
+  readonly mode?: CanonicalizationMode;
+}
+
+interface NormalizeContext {
+  readonly serializers: readonly TypeSerializer[];
+  readonly compareKeys: (keyA: string, keyB: string) => number;
+  readonly stringify: (value: CanonicalJsonValue) => string;
 }
 
-export const canonicalize = (value: unknown): string => {
+const LONE_SURROGATE_PATTERN = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+// Compares UTF-16 code units, as required by RFC 8785 section 3.2.3.
+const compareCodeUnits = (keyA: string, keyB: string): number => (keyA < keyB ? -1 : keyA > keyB ? 1 : 0);
+
+/**
+ * Serializes a normalized value following the JSON Canonicalization Scheme (RFC 8785). Number and
+ * string formatting are delegated to `JSON.stringify`, which already implements the ECMAScript rules
+ * the RFC references; object members are written explicitly so integer-like keys keep code unit order.
+ */
+const stringifyJcs = (value: CanonicalJsonValue): string => {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new IdempotencySerializationError(`JCS cannot represent the number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === "string") {
+    if (LONE_SURROGATE_PATTERN.test(value)) {
+      throw new IdempotencySerializationError("JCS cannot represent strings with lone surrogates");
+    }
+    return JSON.stringify(value);
+  }
+
+  if (value === null || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stringifyJcs(item)).join(",")}]`;
+  }
+
+  const members = Object.keys(value)
+    .sort(compareCodeUnits)
+    .map((key) => `${stringifyJcs(key)}:${stringifyJcs(value[key])}`);
+  return `{${members.join(",")}}`;
+};
+
+const STEADYKEY_CONTEXT = {
+  compareKeys: (keyA: string, keyB: string) => keyA.localeCompare(keyB),
+  stringify: (value: CanonicalJsonValue) => JSON.stringify(value),
+};
+
+const JCS_CONTEXT = {
+  compareKeys: compareCodeUnits,
+  stringify: stringifyJcs,
+};
+
+export const validateTruncateBytes = (algorithm: HashAlgorithm, truncateBytes: number | undefined): void => {
+  if (truncateBytes === undefined) {
+    return;
+  }
+  const digestBytes = DIGEST_BYTES[algorithm];
+  if (!Number.isInteger(truncateBytes) || truncateBytes < MIN_TRUNCATE_BYTES || truncateBytes > digestBytes) {
+    throw new IdempotencyError(
+      `truncateBytes must be an integer between ${MIN_TRUNCATE_BYTES} and ${digestBytes} for ${algorithm}`,
+    );
+  }
+};
+
+export const validateHmacKeys = (keys: readonly HmacKey[]): void => {
+  const seen = new Set<string>();
+  for (const key of keys) {
+    if (typeof key?.id !== "string" || key.id.length === 0) {
+      throw new IdempotencyError("HMAC keys require a non-empty id");
+    }
+    if (seen.has(key.id)) {
+      throw new IdempotencyError(`HMAC key id ${key.id} is already registered`);
+    }
+    if (key.secret === undefined || key.secret === null || key.secret.length === 0) {
+      throw new IdempotencyError(`HMAC key ${key.id} requires a non-empty secret`);
+    }
+    seen.add(key.id);
+  }
+};
+
+/**
+ * Rejects serializer lists whose tags are malformed, duplicated, or shadow a built-in prefix, since
+ * any of those would make two different values canonicalize to the same string.
+ */
+export const validateSerializers = (serializers: readonly TypeSerializer[]): void => {
+  const seen = new Set<string>();
+  for (const serializer of serializers) {
+    const tag = serializer?.tag;
+    if (typeof tag !== "string" || !SERIALIZER_TAG_PATTERN.test(tag)) {
+      throw new IdempotencyError(`Invalid serializer tag: ${String(tag)}`);
+    }
+    if (RESERVED_TAGS.has(tag) || seen.has(tag)) {
+      throw new IdempotencyError(`Serializer tag ${tag} is reserved or already registered`);
+    }
+    seen.add(tag);
+  }
+};
+
+export const canonicalize = (value: unknown, options: CanonicalizeOptions = {}): string => {
+  const selection = compileFieldSelection(options.fieldSelection);
+  const serializers = options.serializers ?? [];
+  validateSerializers(serializers);
+  const mode = options.mode ?? "steadykey";
+  if (mode !== "steadykey" && mode !== "jcs") {
+    throw new IdempotencyError(`Unsupported canonicalization mode: ${String(mode)}`);
+  }
+  const context: NormalizeContext = { serializers, ...(mode === "jcs" ? JCS_CONTEXT : STEADYKEY_CONTEXT) };
   try {
-    const normalized = normalize(value);
-    return JSON.stringify(normalized);
+    const normalized = normalize(value, context);
+    return context.stringify(selection ? projectValue(normalized, selection) : normalized);
   } catch (error) {
     throw new IdempotencySerializationError(
       error instanceof Error ? error.message : "Failed to canonicalize payload",
@@ -30,11 +182,17 @@ export const canonicalize = (value: unknown): string => {
   }
 };
 
-const normalize = (value: unknown): CanonicalJsonValue => {
+const normalize = (value: unknown, context: NormalizeContext): CanonicalJsonValue => {
   if (value === null || typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
     return value as CanonicalJsonValue;
   }
 
+  for (const serializer of context.serializers) {
+    if (serializer.test(value)) {
+      return `${serializer.tag}:${serializer.serialize(value)}`;
+    }
+  }
+
   if (typeof value === "bigint") {
     return `${BIGINT_PREFIX}${value.toString(10)}`;
   }
@@ -47,21 +205,30 @@ const normalize = (value: unknown): CanonicalJsonValue => {
     return `${BUFFER_PREFIX}${value.toString("base64")}`;
   }
 
+  if (ArrayBuffer.isView(value)) {
+    const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return `${TYPED_ARRAY_PREFIX}${value.constructor.name}:${bytes.toString("base64")}`;
+  }
+
+  if (value instanceof URL) {
+    return `${URL_PREFIX}${value.href}`;
+  }
+
   if (Array.isArray(value)) {
-    return value.map((item) => normalize(item));
+    return value.map((item) => normalize(item, context));
   }
 
   if (value instanceof Map) {
     return Array.from(value.entries())
-      .map(([entryKey, entryValue]) => [String(entryKey), normalize(entryValue)] as const)
-      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
-      .map(([entryKey, entryValue]) => `${MAP_PREFIX}${entryKey}:${JSON.stringify(entryValue)}`);
+      .map(([entryKey, entryValue]) => [String(entryKey), normalize(entryValue, context)] as const)
+      .sort(([keyA], [keyB]) => context.compareKeys(keyA, keyB))
+      .map(([entryKey, entryValue]) => `${MAP_PREFIX}${entryKey}:${context.stringify(entryValue)}`);
   }
 
   if (value instanceof Set) {
-    const normalizedValues = Array.from(value.values()).map((entry) => normalize(entry));
+    const normalizedValues = Array.from(value.values()).map((entry) => normalize(entry, context));
     return normalizedValues
-      .map((entry) => JSON.stringify(entry))
+      .map((entry) => context.stringify(entry))
       .sort()
       .map((entry) => `${SET_PREFIX}${entry}`);
   }
@@ -70,10 +237,10 @@ const normalize = (value: unknown): CanonicalJsonValue => {
     const plain: Record<string, CanonicalJsonValue> = {};
     const entries = Object.entries(value as Record<string, unknown>)
       .filter(([, entryValue]) => entryValue !== undefined)
-      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB));
+      .sort(([keyA], [keyB]) => context.compareKeys(keyA, keyB));
 
     for (const [entryKey, entryValue] of entries) {
-      plain[entryKey] = normalize(entryValue);
+      plain[entryKey] = normalize(entryValue, context);
     }
 
     return plain;
@@ -82,13 +249,58 @@ const normalize = (value: unknown): CanonicalJsonValue => {
   throw new IdempotencySerializationError(`Unsupported value type: ${typeof value}`);
 };
 
-export const hashCanonicalValue = (canonicalValue: string, algorithm: HashAlgorithm): string => {
-  return createHash(algorithm).update(canonicalValue).digest("hex");
+/**
+ * Embeds the format version in an id. Version 1 ids are bare hashes so keys written before
+ * versioning existed stay addressable.
+ */
+export const formatId = (hash: string, formatVersion: number): string =>
+  formatVersion > 1 ? `v${formatVersion}:${hash}` : hash;
+
+const encodeBase32 = (bytes: Buffer): string => {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
 };
 
-export const serializeRecord = ({ record }: SerializeRecordInput): string => {
+export const hashCanonicalValue = (
+  canonicalValue: string,
+  algorithm: HashAlgorithm,
+  options: HashOptions = {},
+): string => {
+  validateTruncateBytes(algorithm, options.truncateBytes);
+  const hash = options.hmacKey ? createHmac(algorithm, options.hmacKey.secret) : createHash(algorithm);
+  const digest = hash.update(canonicalValue).digest();
+  const bytes = options.truncateBytes === undefined ? digest : digest.subarray(0, options.truncateBytes);
+  switch (options.encoding ?? "hex") {
+    case "base64url":
+      return bytes.toString("base64url");
+    case "base32":
+      return encodeBase32(bytes);
+    default:
+      return bytes.toString("hex");
+  }
+};
+
+export const serializeRecord = ({ record, encryptionKeys = [], compression }: SerializeRecordInput): string => {
   try {
-    return JSON.stringify(record);
+    if (encryptionKeys.length > 0) {
+      // Sensitive fields are compressed inside the envelope; what stays visible is too small to bother.
+      return JSON.stringify(encryptRecord(record, encryptionKeys, compression));
+    }
+    const json = JSON.stringify(record);
+    return compression ? compressJson(json, compression) : json;
   } catch (error) {
     throw new IdempotencySerializationError(
       error instanceof Error ? error.message : "Failed to serialize idempotency record",
@@ -96,13 +308,22 @@ export const serializeRecord = ({ record }: SerializeRecordInput): string => {
   }
 };
 
-export const deserializeRecord = (value: string): IdempotencyRecord => {
+export const deserializeRecord = (
+  value: string,
+  encryptionKeys: readonly EncryptionKey[] = [],
+): IdempotencyRecord => {
   try {
-    const parsed = JSON.parse(value) as IdempotencyRecord;
+    let parsed = JSON.parse(value) as IdempotencyRecord;
+    const decompressed = decompressEnvelope(parsed);
+    if (decompressed !== null) {
+      parsed = JSON.parse(decompressed) as IdempotencyRecord;
+    }
     if (typeof parsed !== "object" || parsed === null || typeof parsed.id !== "string") {
       throw new IdempotencyError("Stored idempotency record has invalid shape");
     }
-    return parsed;
+    const record = decryptRecord(parsed, encryptionKeys);
+    // Records written before lifecycle states and format versions existed only marked a payload as seen.
+    return { ...record, status: record.status ?? "completed", formatVersion: record.formatVersion ?? 1 };
   } catch (error) {
     if (error instanceof IdempotencyError) {
       throw error;
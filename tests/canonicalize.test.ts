@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { IdempotencyManager, InMemoryIdempotencyStore, canonicalize, steadyKey } from "../src/index.js";
+
+// Test vectors from RFC 8785 section 3.2.2, section 3.2.3 and appendix B.
+const NUMBER_VECTORS: Array<[string, string]> = [
+  ["0000000000000000", "0"],
+  ["8000000000000000", "0"],
+  ["0000000000000001", "5e-324"],
+  ["8000000000000001", "-5e-324"],
+  ["7fefffffffffffff", "1.7976931348623157e+308"],
+  ["ffefffffffffffff", "-1.7976931348623157e+308"],
+  ["4340000000000000", "9007199254740992"],
+  ["c340000000000000", "-9007199254740992"],
+  ["4430000000000000", "295147905179352830000"],
+  ["44b52d02c7e14af5", "9.999999999999997e+22"],
+  ["44b52d02c7e14af6", "1e+23"],
+  ["44b52d02c7e14af7", "1.0000000000000001e+23"],
+  ["444b1ae4d6e2ef4e", "999999999999999700000"],
+  ["444b1ae4d6e2ef4f", "999999999999999900000"],
+  ["444b1ae4d6e2ef50", "1e+21"],
+  ["3eb0c6f7a0b5ed8c", "9.999999999999997e-7"],
+  ["3eb0c6f7a0b5ed8d", "0.000001"],
+  ["41b3de4355555553", "333333333.3333332"],
+  ["41b3de4355555554", "333333333.33333325"],
+  ["41b3de4355555555", "333333333.3333333"],
+  ["41b3de4355555556", "333333333.3333334"],
+  ["41b3de4355555557", "333333333.33333343"],
+  ["becbf647612f3696", "-0.0000033333333333333333"],
+  ["43143ff3c1cb0959", "1424953923781206.2"],
+];
+
+const fromIeee754 = (hex: string): number => Buffer.from(hex, "hex").readDoubleBE(0);
+
+describe("canonicalize in JCS mode", () => {
+  it.each(NUMBER_VECTORS)("serializes %s as %s", (hex, expected) => {
+    expect(canonicalize(fromIeee754(hex), { mode: "jcs" })).toBe(expected);
+  });
+
+  it("rejects values JSON cannot represent", () => {
+    expect(() => canonicalize(fromIeee754("7fffffffffffffff"), { mode: "jcs" })).toThrow(/cannot represent/);
+    expect(() => canonicalize(fromIeee754("7ff0000000000000"), { mode: "jcs" })).toThrow(/cannot represent/);
+    expect(() => canonicalize("\ud800", { mode: "jcs" })).toThrow(/lone surrogates/);
+  });
+
+  it("matches the RFC 8785 primitive data types example", () => {
+    const input = JSON.parse(
+      '{"numbers":[333333333.33333329,1E30,4.50,2e-3,0.000000000000000000000000001],' +
+        '"string":"\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/","literals":[null,true,false]}',
+    );
+    expect(canonicalize(input, { mode: "jcs" })).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+        '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}',
+    );
+  });
+
+  it("sorts properties by UTF-16 code units", () => {
+    const input = {
+      "\u20ac": "Euro Sign",
+      "\r": "Carriage Return",
+      "\ufb33": "Hebrew Letter Dalet With Dagesh",
+      "1": "One",
+      "\ud83d\ude00": "Emoji: Grinning Face",
+      "\u0080": "Control",
+      "\u00f6": "Latin Small Letter O With Diaeresis",
+    };
+    expect(canonicalize(input, { mode: "jcs" })).toBe(
+      '{"\\r":"Carriage Return","1":"One","\u0080":"Control","\u00f6":"Latin Small Letter O With Diaeresis",' +
+        '"\u20ac":"Euro Sign","\ud83d\ude00":"Emoji: Grinning Face","\ufb33":"Hebrew Letter Dalet With Dagesh"}',
+    );
+    expect(canonicalize({ "10": 1, "9": 2 }, { mode: "jcs" })).toBe('{"10":1,"9":2}');
+  });
+
+  it("is selectable from steadyKey and the manager", () => {
+    const payload = { b: 1, a: [1.5, "x"] };
+    const manager = new IdempotencyManager(new InMemoryIdempotencyStore(), { canonicalization: "jcs" });
+    expect(manager.generateId(payload)).toBe(steadyKey(payload, { canonicalization: "jcs" }));
+    expect(() => canonicalize(payload, { mode: "other" as never })).toThrow(/Unsupported canonicalization mode/);
+  });
+});
@@ -1,6 +1,6 @@
 import { beforeEach, afterEach, describe, expect, it, vi } from "vitest";
 import { DynamoDbIdempotencyStore } from "../src/stores/dynamodb-store.js";
-import type { DynamoDbClientLike } from "../src/types.js";
+import type { DynamoDbClientLike, DynamoDbKeysAndAttributes } from "../src/types.js";
 
 const CONDITIONAL_CHECK_FAILED = "ConditionalCheckFailedException";
 
@@ -64,7 +64,11 @@ class FakeDynamoDbClient implements DynamoDbClientLike {
 
     const existing = this.items.get(keyValue);
     if (!existing) {
-      if (params.ConditionExpression?.includes("attribute_exists")) {
+      if (
+        params.ConditionExpression?.includes("attribute_exists") ||
+        params.ConditionExpression?.includes(":expected") ||
+        params.ConditionExpression?.includes(":version")
+      ) {
         const error = new Error(CONDITIONAL_CHECK_FAILED);
         error.name = CONDITIONAL_CHECK_FAILED;
         throw error;
@@ -79,12 +83,41 @@ class FakeDynamoDbClient implements DynamoDbClientLike {
     };
     const resolveValue = (token: string): unknown => values[token];
 
-    const expression = params.UpdateExpression.trim();
-    if (!expression.startsWith("SET ")) {
+    if (params.ConditionExpression?.includes("= :expected")) {
+      const currentValue = existing[resolveName("#value")];
+      const expiresAt = existing[resolveName("#ttl")];
+      const expired = typeof expiresAt === "number" && expiresAt <= (resolveValue(":now") as number);
+      if (currentValue !== resolveValue(":expected") || expired) {
+        const error = new Error(CONDITIONAL_CHECK_FAILED);
+        error.name = CONDITIONAL_CHECK_FAILED;
+        throw error;
+      }
+    }
+
+    if (params.ConditionExpression?.includes("= :version")) {
+      const currentVersion = existing[resolveName("#version")] ?? 0;
+      const expiresAt = existing[resolveName("#ttl")];
+      const expired = typeof expiresAt === "number" && expiresAt <= (resolveValue(":now") as number);
+      if (currentVersion !== resolveValue(":version") || expired) {
+        const error = new Error(CONDITIONAL_CHECK_FAILED);
+        error.name = CONDITIONAL_CHECK_FAILED;
+        throw error;
+      }
+    }
+
+    const [expression, addSectionRaw] = params.UpdateExpression.trim().split(" ADD ");
+    if (!expression.startsWith("SET ") && !expression.startsWith("REMOVE ")) {
       throw new Error("Unsupported update expression in fake client");
     }
 
-    const withoutSet = expression.slice(4);
+    if (addSectionRaw) {
+      const [left, right] = addSectionRaw.trim().split(/\s+/);
+      const attributeName = resolveName(left);
+      const current = (existing[attributeName] as number | undefined) ?? 0;
+      existing[attributeName] = current + (resolveValue(right) as number);
+    }
+
+    const withoutSet = expression.startsWith("SET ") ? expression.slice(4) : ` ${expression}`;
     const [setSectionRaw, removeSectionRaw] = withoutSet.split(" REMOVE ");
     const setSegments = setSectionRaw.split(",").map((segment) => segment.trim()).filter(Boolean);
 
@@ -127,6 +160,71 @@ class FakeDynamoDbClient implements DynamoDbClientLike {
     }
     return {};
   }
+
+  /** Serves at most `batchGetLimit` keys per call and reports the rest as unprocessed. */
+  batchGetLimit = Number.POSITIVE_INFINITY;
+
+  async batchGet(params: {
+    RequestItems: Record<string, DynamoDbKeysAndAttributes>;
+  }): Promise<{
+    Responses: Record<string, Record<string, unknown>[]>;
+    UnprocessedKeys: Record<string, DynamoDbKeysAndAttributes>;
+  }> {
+    const [[tableName, request]] = Object.entries(params.RequestItems);
+    const served = request.Keys.slice(0, this.batchGetLimit);
+    const remaining = request.Keys.slice(served.length);
+    const items = served
+      .map((key) => this.items.get(key[this.partitionKey] as string))
+      .filter((item): item is Record<string, unknown> => item !== undefined);
+    return {
+      Responses: { [tableName]: items.map((item) => ({ ...item })) },
+      UnprocessedKeys: remaining.length > 0 ? { [tableName]: { ...request, Keys: remaining } } : {},
+    };
+  }
+
+  /** Number of items read per scan call before a LastEvaluatedKey is returned. */
+  scanPageSize = 2;
+
+  async scan(params: {
+    TableName: string;
+    ExpressionAttributeValues?: Record<string, unknown>;
+    ExclusiveStartKey?: Record<string, unknown>;
+  }): Promise<{ Items: Record<string, unknown>[]; LastEvaluatedKey?: Record<string, unknown> }> {
+    const keys = Array.from(this.items.keys());
+    const startAfter = params.ExclusiveStartKey?.[this.partitionKey];
+    const start = startAfter === undefined ? 0 : keys.indexOf(startAfter as string) + 1;
+    const page = keys.slice(start, start + this.scanPageSize);
+    const prefix = params.ExpressionAttributeValues?.[":prefix"] as string;
+    return {
+      Items: page.filter((key) => key.startsWith(prefix)).map((key) => ({ ...this.items.get(key) })),
+      LastEvaluatedKey:
+        start + this.scanPageSize < keys.length ? { [this.partitionKey]: page[page.length - 1] } : undefined,
+    };
+  }
+
+  transactWriteCalls = 0;
+  /** Stands in for the 4 MB request limit: larger transactions are rejected as invalid. */
+  transactWriteMaxItems = Number.POSITIVE_INFINITY;
+
+  async transactWrite(params: {
+    TransactItems: { Put: { TableName: string; Item: Record<string, unknown>; ConditionExpression?: string } }[];
+  }): Promise<void> {
+    this.transactWriteCalls += 1;
+    if (params.TransactItems.length > this.transactWriteMaxItems) {
+      const error = new Error("Transaction size exceeds limit");
+      error.name = "ValidationException";
+      throw error;
+    }
+    const conflict = params.TransactItems.some(({ Put }) => this.items.has(Put.Item[this.partitionKey] as string));
+    if (conflict) {
+      const error = new Error("Transaction cancelled");
+      error.name = "TransactionCanceledException";
+      throw error;
+    }
+    for (const { Put } of params.TransactItems) {
+      this.items.set(Put.Item[this.partitionKey] as string, { ...Put.Item });
+    }
+  }
 }
 
 describe("DynamoDbIdempotencyStore", () => {
@@ -182,6 +280,155 @@ describe("DynamoDbIdempotencyStore", () => {
     await expect(store.update("missing", "value", null)).rejects.toThrow(/does not exist/);
   });
 
+  it("conditionally updates records that still hold the expected value", async () => {
+    await store.setIfAbsent("id", "first", 60);
+
+    expect(await store.updateIfMatches("id", "stale", "second", 60)).toBe(false);
+    expect(await store.updateIfMatches("id", "first", "second", 120)).toBe(true);
+
+    const updated = await store.get("id");
+    expect(updated?.value).toBe("second");
+    expect(updated?.ttlSeconds).toBe(120);
+
+    vi.advanceTimersByTime(121_000);
+    expect(await store.updateIfMatches("id", "second", "third", 60)).toBe(false);
+    expect(await store.updateIfMatches("missing", "value", "other", null)).toBe(false);
+  });
+
+  it("compares and sets against the version bumped by every update", async () => {
+    await store.setIfAbsent("id", "first", 60);
+    const inserted = Number((await store.get("id"))?.version);
+
+    expect(await store.compareAndSet("id", String(inserted), "second", 60)).toBe(true);
+    expect(await store.compareAndSet("id", String(inserted), "stale", 60)).toBe(false);
+    await store.update("id", "third", 60);
+
+    const current = await store.get("id");
+    expect(current).toMatchObject({ value: "third", version: String(inserted + 2) });
+    expect(await store.compareAndSet("id", String(inserted + 2), "fourth", null)).toBe(true);
+    expect(await store.get("id")).toMatchObject({ value: "fourth", ttlSeconds: null, version: String(inserted + 3) });
+    expect(await store.compareAndSet("missing", "0", "value", null)).toBe(false);
+  });
+
+  it("does not repeat versions when a key is deleted and created again", async () => {
+    await store.setIfAbsent("id", "first", null);
+    const stale = (await store.get("id"))!.version!;
+    await store.delete("id");
+    await store.setIfAbsent("id", "first", null);
+
+    expect(await store.compareAndSet("id", stale, "overwritten", null)).toBe(false);
+    expect((await store.get("id"))?.value).toBe("first");
+  });
+
+  it("refreshes TTLs without rewriting values", async () => {
+    await store.setIfAbsent("id", "first", 60);
+    const inserted = Number((await store.get("id"))?.version);
+
+    expect(await store.touch("id", 300)).toBe(true);
+    expect(await store.get("id")).toEqual({ value: "first", ttlSeconds: 300, version: String(inserted + 1) });
+    expect(await store.touch("id", null)).toBe(true);
+    expect(await store.get("id")).toEqual({ value: "first", ttlSeconds: null, version: String(inserted + 2) });
+    expect(await store.touch("missing", 60)).toBe(false);
+  });
+
+  it("inserts batches in transactions and falls back per key on conflicts", async () => {
+    const fresh = await store.setManyIfAbsent([
+      { key: "a", value: "1", ttlSeconds: 60 },
+      { key: "b", value: "2", ttlSeconds: null },
+    ]);
+    expect(fresh).toEqual([true, true]);
+    expect(client.transactWriteCalls).toBe(1);
+
+    const mixed = await store.setManyIfAbsent([
+      { key: "b", value: "other", ttlSeconds: null },
+      { key: "c", value: "3", ttlSeconds: null },
+    ]);
+    expect(mixed).toEqual([false, true]);
+    expect((await store.get("b"))?.value).toBe("2");
+    expect((await store.get("c"))?.value).toBe("3");
+  });
+
+  it("splits transactions that exceed the request size limit", async () => {
+    client.transactWriteMaxItems = 2;
+    const entries = ["a", "b", "c", "d", "e"].map((key) => ({ key, value: key, ttlSeconds: null }));
+
+    expect(await store.setManyIfAbsent(entries)).toEqual([true, true, true, true, true]);
+    expect((await store.getMany(["a", "e"])).map((stored) => stored?.value)).toEqual(["a", "e"]);
+  });
+
+  it("reads batches, retrying unprocessed keys and hiding expired items", async () => {
+    await store.setIfAbsent("a", "1", 60);
+    await store.setIfAbsent("b", "2", 10);
+    await store.setIfAbsent("c", "3", null);
+    client.batchGetLimit = 1;
+    vi.advanceTimersByTime(11_000);
+
+    const values = await store.getMany(["c", "missing", "b", "a"]);
+    expect(values).toEqual([
+      { value: "3", ttlSeconds: null, version: expect.any(String) },
+      null,
+      null,
+      { value: "1", ttlSeconds: 49, version: expect.any(String) },
+    ]);
+
+    expect(await client.get({ TableName: "steadykey", Key: { key: "b" } })).toEqual({ Item: undefined });
+    expect(await store.setManyIfAbsent([{ key: "b", value: "again", ttlSeconds: null }])).toEqual([true]);
+
+    client.batchGetLimit = 0;
+    await expect(store.getMany(["a"])).rejects.toThrow(/unprocessed/);
+  });
+
+  it("scans keys by prefix across pages and resumes from cursors", async () => {
+    for (const key of ["app:a", "other:x", "app:b", "app:c", "other:y", "app:d"]) {
+      await store.setIfAbsent(key, key.toUpperCase(), key === "app:c" ? 10 : null);
+    }
+    vi.advanceTimersByTime(11_000);
+
+    const scanned = [];
+    for await (const entry of store.scan!("app:")) {
+      scanned.push(entry.key);
+    }
+    expect(scanned).toEqual(["app:a", "app:b", "app:d"]);
+
+    const firstPage = [];
+    for await (const entry of store.scan!("app:", { limit: 2 })) {
+      firstPage.push(entry);
+    }
+    expect(firstPage.map(({ key }) => key)).toEqual(["app:a", "app:b"]);
+    expect(firstPage[0]).toMatchObject({ value: "APP:A", ttlSeconds: null });
+
+    const rest = [];
+    for await (const entry of store.scan!("app:", { cursor: firstPage[1].cursor })) {
+      rest.push(entry.key);
+    }
+    expect(rest).toEqual(["app:d"]);
+  });
+
+  it("falls back to per-key calls on clients without batch operations", async () => {
+    const { put, get, update, delete: remove } = client;
+    const minimal: DynamoDbClientLike = {
+      put: put.bind(client),
+      get: get.bind(client),
+      update: update.bind(client),
+      delete: remove.bind(client),
+    };
+    store = new DynamoDbIdempotencyStore(minimal, { tableName: "steadykey" });
+    await store.setIfAbsent("b", "existing", null);
+
+    expect(
+      await store.setManyIfAbsent([
+        { key: "a", value: "1", ttlSeconds: 60 },
+        { key: "b", value: "2", ttlSeconds: null },
+      ]),
+    ).toEqual([true, false]);
+    expect((await store.getMany(["a", "missing", "b"])).map((stored) => stored?.value ?? null)).toEqual([
+      "1",
+      null,
+      "existing",
+    ]);
+    expect(store.scan).toBeUndefined();
+  });
+
   it("deletes records", async () => {
     const absent = await store.delete("missing");
     expect(absent).toBe(false);
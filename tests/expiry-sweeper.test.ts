@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InMemoryIdempotencyStore, PostgresIdempotencyStore, startExpirySweeper } from "../src/index.js";
+import type { PgClientLike } from "../src/types.js";
+
+describe("purgeExpired", () => {
+  it("deletes expired rows in batches until a short batch", async () => {
+    const deletedPerBatch = [3, 3, 1];
+    const queries: { text: string; params?: readonly unknown[] }[] = [];
+    const client: PgClientLike = {
+      async query<T>(text: string, params?: readonly unknown[]) {
+        queries.push({ text, params });
+        return { rowCount: deletedPerBatch.shift() ?? 0, rows: [] as T[] };
+      },
+    };
+    const store = new PostgresIdempotencyStore(client, { ensureTable: false });
+
+    expect(await store.purgeExpired({ batchSize: 3 })).toBe(7);
+    expect(queries).toHaveLength(3);
+    expect(queries[0].text).toMatch(/DELETE FROM "steadykey_entries"[\s\S]*LIMIT \$1[\s\S]*SKIP LOCKED/);
+    expect(queries[0].params).toEqual([3]);
+    await expect(store.purgeExpired({ batchSize: 0 })).rejects.toThrow(/batchSize/);
+  });
+});
+
+describe("startExpirySweeper", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("purges periodically and records metrics", async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.setIfAbsent("a", "1", 1);
+    await store.setIfAbsent("b", "2", 1);
+    await store.setIfAbsent("c", "3", null);
+    const onSweep = vi.fn();
+    const sweeper = startExpirySweeper(store, { intervalMs: 5_000, onSweep });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(onSweep).toHaveBeenCalledWith(2, expect.objectContaining({ runs: 1, rowsRemoved: 2 }));
+    expect(sweeper.metrics()).toEqual({
+      runs: 1,
+      failures: 0,
+      rowsRemoved: 2,
+      lastRowsRemoved: 2,
+      lastRunAt: "2025-01-01T00:00:05.000Z",
+      lastDurationMs: 0,
+    });
+
+    expect(await sweeper.sweep()).toBe(0);
+    expect(sweeper.metrics()).toMatchObject({ runs: 2, rowsRemoved: 2, lastRowsRemoved: 0 });
+
+    sweeper.stop();
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(sweeper.metrics().runs).toBe(2);
+  });
+
+  it("counts failures and reports them without stopping", async () => {
+    const store = new InMemoryIdempotencyStore();
+    const failure = new Error("database unavailable");
+    vi.spyOn(store, "purgeExpired").mockRejectedValueOnce(failure).mockResolvedValue(4);
+    const onError = vi.fn();
+    const sweeper = startExpirySweeper(store, { intervalMs: 1_000, onError });
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(onError).toHaveBeenCalledWith(failure);
+    expect(sweeper.metrics()).toMatchObject({ runs: 2, failures: 1, rowsRemoved: 4 });
+    sweeper.stop();
+  });
+
+  it("keeps throwing callbacks out of the sweep outcome", async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.setIfAbsent("a", "1", 1);
+    vi.spyOn(store, "purgeExpired").mockResolvedValueOnce(1).mockRejectedValueOnce(new Error("down"));
+    const onError = vi.fn(() => {
+      throw new Error("onError failed");
+    });
+    const sweeper = startExpirySweeper(store, {
+      intervalMs: 1_000,
+      onSweep: () => {
+        throw new Error("onSweep failed");
+      },
+      onError,
+    });
+
+    expect(await sweeper.sweep()).toBe(1);
+    expect(sweeper.metrics()).toMatchObject({ runs: 1, failures: 0, rowsRemoved: 1 });
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(sweeper.metrics()).toMatchObject({ runs: 2, failures: 1 });
+    sweeper.stop();
+  });
+
+  it("rejects stores without purge support", () => {
+    const store = new InMemoryIdempotencyStore();
+    Object.defineProperty(store, "purgeExpired", { value: undefined });
+    expect(() => startExpirySweeper(store)).toThrow(/does not support purging/);
+  });
+});
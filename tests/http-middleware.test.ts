@@ -0,0 +1,316 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import {
+  IdempotencyManager,
+  InMemoryIdempotencyStore,
+  expressIdempotency,
+  fastifyIdempotency,
+  koaIdempotency,
+} from "../src/index.js";
+import type { FastifyReplyLike, FastifyRequestLike, KoaContextLike } from "../src/index.js";
+
+const readBody = async (request: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+};
+
+const listen = async (server: Server): Promise<string> => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+};
+
+const post = (baseUrl: string, body: unknown, key?: string, path = "/orders") =>
+  fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...(key ? { "idempotency-key": key } : {}) },
+    body: JSON.stringify(body),
+  });
+
+describe("expressIdempotency", () => {
+  let server: Server;
+  let baseUrl: string;
+  let calls: number;
+  let release: (() => void) | null;
+
+  beforeEach(async () => {
+    calls = 0;
+    release = null;
+    const manager = new IdempotencyManager(new InMemoryIdempotencyStore());
+    const middleware = expressIdempotency(manager);
+
+    server = createServer((request: IncomingMessage, response: ServerResponse) => {
+      void readBody(request).then((body) => {
+        Object.assign(request, { body, originalUrl: request.url });
+        middleware(request as IncomingMessage & { body: unknown; method: string }, response, async (error?: unknown) => {
+          if (error) {
+            response.statusCode = 500;
+            response.end();
+            return;
+          }
+          calls += 1;
+          if ((body as { slow?: boolean }).slow) {
+            await new Promise<void>((resolve) => {
+              release = resolve;
+            });
+          }
+          response.statusCode = (body as { fail?: boolean }).fail ? 503 : 201;
+          response.setHeader("content-type", "application/json");
+          response.end(JSON.stringify({ orderId: "order-123", calls }));
+        });
+      });
+    });
+    baseUrl = await listen(server);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("replays stored responses for a reused key", async () => {
+    const first = await post(baseUrl, { sku: "A-1" }, "key-1");
+    expect(first.status).toBe(201);
+    expect(await first.json()).toEqual({ orderId: "order-123", calls: 1 });
+
+    const replay = await post(baseUrl, { sku: "A-1" }, "key-1");
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get("idempotent-replayed")).toBe("true");
+    expect(await replay.json()).toEqual({ orderId: "order-123", calls: 1 });
+    expect(calls).toBe(1);
+  });
+
+  it("rejects a reused key with a different body", async () => {
+    await post(baseUrl, { sku: "A-1" }, "key-1");
+    const mismatch = await post(baseUrl, { sku: "B-9" }, "key-1");
+    expect(mismatch.status).toBe(422);
+    expect(mismatch.headers.get("content-type")).toBe("application/problem+json");
+  });
+
+  it("treats a key reused on another endpoint as a separate operation", async () => {
+    await post(baseUrl, { sku: "A-1" }, "key-1");
+    const other = await post(baseUrl, { sku: "B-9" }, "key-1", "/refunds");
+    expect(other.status).toBe(201);
+    expect(other.headers.get("idempotent-replayed")).toBeNull();
+    expect(calls).toBe(2);
+  });
+
+  it("returns 409 while the original request is in flight", async () => {
+    const pending = post(baseUrl, { sku: "A-1", slow: true }, "key-1");
+    while (!release) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const conflict = await post(baseUrl, { sku: "A-1", slow: true }, "key-1");
+    expect(conflict.status).toBe(409);
+
+    release();
+    expect((await pending).status).toBe(201);
+  });
+
+  it("falls back to a payload key and releases it after server errors", async () => {
+    const first = await post(baseUrl, { sku: "A-1", fail: true });
+    expect(first.status).toBe(503);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const retry = await post(baseUrl, { sku: "A-1", fail: true });
+    expect(retry.status).toBe(503);
+    expect(calls).toBe(2);
+  });
+});
+
+describe("koaIdempotency", () => {
+  const createContext = (body: unknown, key?: string): KoaContextLike & { headers: Record<string, string> } => {
+    const headers: Record<string, string> = {};
+    return {
+      method: "POST",
+      url: "/orders",
+      request: { body },
+      response: { headers },
+      headers,
+      status: 404,
+      body: undefined,
+      get: (field: string) => (field === "idempotency-key" ? key ?? "" : ""),
+      set(field: string, value: string | string[]) {
+        headers[field] = Array.isArray(value) ? value.join(", ") : value;
+      },
+    };
+  };
+
+  it("replays responses and flags key misuse", async () => {
+    const manager = new IdempotencyManager(new InMemoryIdempotencyStore());
+    const middleware = koaIdempotency(manager);
+    let calls = 0;
+    const next = async (ctx: KoaContextLike) => {
+      calls += 1;
+      ctx.status = 201;
+      ctx.set("content-type", "application/json");
+      ctx.body = { orderId: "order-123" };
+    };
+
+    const first = createContext({ sku: "A-1" }, "key-1");
+    await middleware(first, () => next(first));
+    expect(first.status).toBe(201);
+
+    const replay = createContext({ sku: "A-1" }, "key-1");
+    await middleware(replay, () => next(replay));
+    expect(replay.status).toBe(201);
+    expect(JSON.parse((replay.body as Buffer).toString("utf8"))).toEqual({ orderId: "order-123" });
+    expect(replay.headers["idempotent-replayed"]).toBe("true");
+    expect(calls).toBe(1);
+
+    const mismatch = createContext({ sku: "B-9" }, "key-1");
+    await middleware(mismatch, () => next(mismatch));
+    expect(mismatch.status).toBe(422);
+  });
+});
+
+describe("fastifyIdempotency", () => {
+  type PreHandler = (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>;
+  type OnSend = (request: FastifyRequestLike, reply: FastifyReplyLike, payload: unknown) => Promise<unknown>;
+  type OnRequestAbort = (request: FastifyRequestLike) => Promise<unknown>;
+
+  interface ReplyDouble extends FastifyReplyLike {
+    statusCode: number;
+    readonly headers: Record<string, string | string[]>;
+    sent?: unknown;
+  }
+
+  const createReply = (): ReplyDouble => {
+    const reply: ReplyDouble = {
+      statusCode: 200,
+      headers: {},
+      code(statusCode) {
+        reply.statusCode = statusCode;
+        return reply;
+      },
+      header(name, value) {
+        reply.headers[name.toLowerCase()] = value;
+        return reply;
+      },
+      getHeaders: () => reply.headers,
+      send(payload) {
+        reply.sent = payload;
+        return reply;
+      },
+    };
+    return reply;
+  };
+
+  let calls: number;
+  let release: (() => void) | null;
+  let manager: IdempotencyManager;
+  let hooks: { preHandler?: PreHandler; onSend?: OnSend; onRequestAbort?: OnRequestAbort };
+  let dispatch: (body: { sku: string; slow?: boolean }, key?: string) => Promise<ReplyDouble>;
+
+  beforeEach(async () => {
+    calls = 0;
+    release = null;
+    hooks = {};
+    manager = new IdempotencyManager(new InMemoryIdempotencyStore());
+    const plugin = fastifyIdempotency(manager);
+    await plugin({
+      addHook: (name: "preHandler" | "onSend" | "onRequestAbort", hook: PreHandler | OnSend | OnRequestAbort) => {
+        Object.assign(hooks, { [name]: hook });
+      },
+    });
+
+    dispatch = async (body, key) => {
+      const request: FastifyRequestLike = {
+        method: "POST",
+        url: "/orders",
+        headers: key ? { "idempotency-key": key } : {},
+        body,
+      };
+      const reply = createReply();
+      await hooks.preHandler!(request, reply);
+      if (reply.sent === undefined) {
+        calls += 1;
+        if (body.slow) {
+          await new Promise<void>((resolve) => {
+            release = resolve;
+          });
+        }
+        reply.code(201).header("content-type", "application/json");
+        reply.sent = await hooks.onSend!(request, reply, JSON.stringify({ orderId: "order-123", calls }));
+      }
+      return reply;
+    };
+  });
+
+  const json = (reply: ReplyDouble): unknown => JSON.parse(Buffer.from(reply.sent as string | Buffer).toString("utf8"));
+
+  it("runs the first request and replays it for a reused key", async () => {
+    const first = await dispatch({ sku: "A-1" }, "key-1");
+    expect(first.statusCode).toBe(201);
+    expect(json(first)).toEqual({ orderId: "order-123", calls: 1 });
+
+    const replay = await dispatch({ sku: "A-1" }, "key-1");
+    expect(replay.statusCode).toBe(201);
+    expect(replay.headers["idempotent-replayed"]).toBe("true");
+    expect(json(replay)).toEqual({ orderId: "order-123", calls: 1 });
+    expect(calls).toBe(1);
+  });
+
+  it("returns 409 while the original request is in flight", async () => {
+    const pending = dispatch({ sku: "A-1", slow: true }, "key-1");
+    while (!release) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const conflict = await dispatch({ sku: "A-1", slow: true }, "key-1");
+    expect(conflict.statusCode).toBe(409);
+    expect(calls).toBe(1);
+
+    release();
+    expect((await pending).statusCode).toBe(201);
+  });
+
+  it("rejects a reused key with a different body", async () => {
+    await dispatch({ sku: "A-1" }, "key-1");
+    const mismatch = await dispatch({ sku: "B-9" }, "key-1");
+    expect(mismatch.statusCode).toBe(422);
+    expect(mismatch.headers["content-type"]).toBe("application/problem+json");
+    expect(calls).toBe(1);
+  });
+
+  it("releases the key when the client aborts the request", async () => {
+    const request: FastifyRequestLike = {
+      method: "POST",
+      url: "/orders",
+      headers: { "idempotency-key": "key-1" },
+      body: { sku: "A-1" },
+    };
+    await hooks.preHandler!(request, createReply());
+    await hooks.onRequestAbort!(request);
+
+    const retry = await dispatch({ sku: "A-1" }, "key-1");
+    expect(retry.statusCode).toBe(201);
+    expect(retry.headers["idempotent-replayed"]).toBeUndefined();
+    expect(calls).toBe(1);
+  });
+
+  it("logs responses that could not be stored and releases their keys", async () => {
+    const failure = new Error("store down");
+    vi.spyOn(manager, "markCompleted").mockRejectedValueOnce(failure);
+    const logged: unknown[] = [];
+    const request: FastifyRequestLike = {
+      method: "POST",
+      url: "/orders",
+      headers: { "idempotency-key": "key-1" },
+      body: { sku: "A-1" },
+      log: { error: (details) => logged.push(details) },
+    };
+    await hooks.preHandler!(request, createReply());
+    const payload = JSON.stringify({ orderId: "order-123" });
+    expect(await hooks.onSend!(request, createReply(), payload)).toBe(payload);
+
+    expect(logged).toEqual([{ err: failure }]);
+    expect((await dispatch({ sku: "A-1" }, "key-1")).headers["idempotent-replayed"]).toBeUndefined();
+  });
+});
@@ -1,7 +1,17 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   IdempotencyManager,
   IdempotencyCollisionError,
+  IdempotencyError,
+  IdempotencyFailedError,
+  IdempotencyInProgressError,
+  IdempotencyKeyMismatchError,
+  IdempotencyLeaseLostError,
+  IdempotencyResultTooLargeError,
+  IdempotencySerializationError,
+  IdempotencyWaitTimeoutError,
+  InMemoryIdempotencyStore,
+  canonicalize,
   steadyKey,
 } from "../src/index.js";
 import type { IdempotencyStore, IdempotencyStoreValue } from "../src/types.js";
@@ -131,6 +141,304 @@ describe("IdempotencyManager", () => {
     expect(standalone).toBe(managed);
   });
 
+  it("ignores excluded fields when canonicalizing", () => {
+    const fieldSelection = { exclude: ["requestedAt", "/trace/id", "items[*].nonce"] };
+    const payloadA = createPayload({
+      requestedAt: "2025-01-01T00:00:00Z",
+      trace: { id: "a", region: "eu" },
+      items: [{ sku: "ABC", nonce: 1 }],
+    });
+    const payloadB = createPayload({
+      requestedAt: "2025-06-01T00:00:00Z",
+      trace: { id: "b", region: "eu" },
+      items: [{ sku: "ABC", nonce: 2 }],
+    });
+
+    expect(steadyKey(payloadA, { fieldSelection })).toBe(steadyKey(payloadB, { fieldSelection }));
+    expect(steadyKey(payloadA)).not.toBe(steadyKey(payloadB));
+    expect(canonicalize(payloadA, { fieldSelection })).toBe(
+      '{"id":"order-123","items":[{"sku":"ABC"}],"total":42.5,"trace":{"region":"eu"}}',
+    );
+  });
+
+  it("keeps only included fields when canonicalizing", () => {
+    const fieldSelection = { include: ["id", "items.*.sku"] };
+    expect(canonicalize(createPayload(), { fieldSelection })).toBe(
+      '{"id":"order-123","items":[{"sku":"ABC"},{"sku":"XYZ"}]}',
+    );
+    expect(() => canonicalize({}, { fieldSelection: { include: ["a..b"] } })).toThrow(/Invalid field selection/);
+  });
+
+  it("keeps array positions when including fields inside arrays", () => {
+    const fieldSelection = { include: ["items.*.sku"] };
+    const first = { items: [{ sku: "ABC" }, { qty: 1 }] };
+    const second = { items: [{ qty: 1 }, { sku: "ABC" }] };
+
+    expect(canonicalize(second, { fieldSelection })).toBe('{"items":[null,{"sku":"ABC"}]}');
+    expect(canonicalize(first, { fieldSelection })).toBe('{"items":[{"sku":"ABC"}]}');
+    expect(steadyKey(first, { fieldSelection })).not.toBe(steadyKey(second, { fieldSelection }));
+  });
+
+  it("canonicalizes custom types through registered serializers", () => {
+    class Money {
+      constructor(readonly amount: string, readonly currency: string) {}
+    }
+    const money = {
+      tag: "money",
+      test: (value: unknown): value is Money => value instanceof Money,
+      serialize: (value: Money) => `${value.amount} ${value.currency}`,
+    };
+
+    expect(canonicalize({ price: new Money("4.20", "EUR") }, { serializers: [money] })).toBe(
+      '{"price":"money:4.20 EUR"}',
+    );
+    expect(() => canonicalize({}, { serializers: [{ ...money, tag: "map" }] })).toThrow(/reserved/);
+
+    const serializedManager = new IdempotencyManager(store, { serializers: [money] });
+    expect(serializedManager.generateId(new Money("1", "USD"))).toBe(
+      steadyKey(new Money("1", "USD"), { serializers: [money] }),
+    );
+  });
+
+  it("canonicalizes typed arrays and URLs", () => {
+    expect(canonicalize({ bytes: new Uint16Array([1, 2]), link: new URL("https://example.com/a?b=1") })).toBe(
+      '{"bytes":"typedarray:Uint16Array:AQACAA==","link":"url:https://example.com/a?b=1"}',
+    );
+    expect(steadyKey(new Uint8Array([1]))).not.toBe(steadyKey(new Int8Array([1])));
+  });
+
+  it("records the format that produced each key", async () => {
+    const versioned = new IdempotencyManager(store, { formatVersion: 2, canonicalization: "jcs" });
+    const { id, record } = await versioned.register(createPayload());
+
+    expect(id).toMatch(/^v2:[0-9a-f]{64}$/);
+    expect(id).toBe(steadyKey(createPayload(), { formatVersion: 2, canonicalization: "jcs" }));
+    expect(record).toMatchObject({ formatVersion: 2, canonicalization: "jcs", hashAlgorithm: "sha256" });
+
+    const legacy = await manager.register(createPayload({ legacy: true }));
+    expect(legacy.id).not.toMatch(/^v\d+:/);
+    expect(legacy.record.formatVersion).toBe(1);
+  });
+
+  it("honours previous formats during a migration window", async () => {
+    const payload = createPayload();
+    const original = await manager.register(payload);
+
+    const migrated = new IdempotencyManager(store, {
+      keyPrefix: "tests:idempotency",
+      formatVersion: 2,
+      hashAlgorithm: "sha512",
+      previousFormats: [{ version: 1 }],
+    });
+
+    const duplicate = await migrated.register(payload);
+    expect(duplicate.stored).toBe(false);
+    expect(duplicate.id).toBe(original.id);
+
+    const lookup = await migrated.lookupByPayload(payload);
+    expect(lookup?.id).toBe(original.id);
+
+    const fresh = await migrated.register(createPayload({ total: 10 }));
+    expect(fresh.stored).toBe(true);
+    expect(fresh.id).toMatch(/^v2:[0-9a-f]{128}$/);
+
+    const withoutWindow = new IdempotencyManager(store, { keyPrefix: "tests:idempotency", formatVersion: 2 });
+    expect((await withoutWindow.register(payload)).stored).toBe(true);
+  });
+
+  it("verifies client keys written under a previous format", async () => {
+    await manager.registerWithKey("client-key-1", createPayload());
+    const migrated = new IdempotencyManager(store, {
+      keyPrefix: "tests:idempotency",
+      formatVersion: 2,
+      canonicalization: "jcs",
+      previousFormats: [{ version: 1 }],
+    });
+
+    expect((await migrated.registerWithKey("client-key-1", createPayload())).stored).toBe(false);
+    await expect(migrated.registerWithKey("client-key-1", createPayload({ total: 1 }))).rejects.toBeInstanceOf(
+      IdempotencyKeyMismatchError,
+    );
+    expect(() => new IdempotencyManager(store, { previousFormats: [{ version: 1 }] })).toThrow(/must not repeat/);
+  });
+
+  it("hashes keys with HMAC and accepts rotated secrets", async () => {
+    const oldKey = { id: "2025-01", secret: "first-secret" };
+    const newKey = { id: "2025-06", secret: "second-secret" };
+    const payload = createPayload();
+
+    const before = new IdempotencyManager(store, { keyPrefix: "tests:idempotency", hmacKeys: [oldKey] });
+    const original = await before.register(payload);
+    expect(original.id).toBe(steadyKey(payload, { hmacKey: oldKey }));
+    expect(original.id).not.toBe(steadyKey(payload));
+    expect(original.record.hmacKeyId).toBe("2025-01");
+
+    const rotated = new IdempotencyManager(store, { keyPrefix: "tests:idempotency", hmacKeys: [newKey, oldKey] });
+    expect(rotated.generateId(payload)).toBe(steadyKey(payload, { hmacKey: newKey }));
+
+    const duplicate = await rotated.register(payload);
+    expect(duplicate.stored).toBe(false);
+    expect(duplicate.id).toBe(original.id);
+    expect((await rotated.lookupByPayload(payload))?.id).toBe(original.id);
+
+    const fresh = await rotated.register(createPayload({ total: 10 }));
+    expect(fresh.record.hmacKeyId).toBe("2025-06");
+
+    await rotated.registerWithKey("client-key-1", payload);
+    const announced = new IdempotencyManager(store, { keyPrefix: "tests:idempotency", hmacKeys: [oldKey, newKey] });
+    expect((await announced.registerWithKey("client-key-1", payload)).stored).toBe(false);
+    await expect(before.registerWithKey("client-key-1", payload)).rejects.toThrow(/HMAC key 2025-06/);
+  });
+
+  it("rejects invalid HMAC keys", () => {
+    expect(() => new IdempotencyManager(store, { hmacKeys: [{ id: "", secret: "s" }] })).toThrow(/non-empty id/);
+    expect(() => new IdempotencyManager(store, { hmacKeys: [{ id: "a", secret: "" }] })).toThrow(/non-empty secret/);
+    expect(
+      () =>
+        new IdempotencyManager(store, {
+          hmacKeys: [
+            { id: "a", secret: "one" },
+            { id: "a", secret: "two" },
+          ],
+        }),
+    ).toThrow(/already registered/);
+  });
+
+  it("supports alternative digests, encodings and truncation", async () => {
+    expect(steadyKey("abc", { hashEncoding: "base32" })).toBe("ntcd7bmpxn3dgaldpnnps4hcurvun5db6j7fud2b4ae4lg4cpmsq");
+    expect(steadyKey("abc", { hashEncoding: "base32", truncateBytes: 10 })).toBe("ntcd7bmpxn3dgald");
+    expect(steadyKey("abc", { hashAlgorithm: "sha3-256", truncateBytes: 16 })).toBe("460c09e673f81da9d6604954002d0149");
+    expect(steadyKey("abc", { hashAlgorithm: "blake2b512", hashEncoding: "base64url" })).toMatch(/^[A-Za-z0-9_-]{86}$/);
+
+    const compact = new IdempotencyManager(store, {
+      keyPrefix: "tests:idempotency",
+      hashAlgorithm: "blake2b512",
+      hashEncoding: "base64url",
+      truncateBytes: 18,
+    });
+    const registration = await compact.register(createPayload());
+    expect(registration.id).toHaveLength(24);
+    expect(registration.record.payloadHash).toBe(registration.id);
+    expect((await compact.register(createPayload())).stored).toBe(false);
+  });
+
+  it("refuses or warns about short truncation lengths", () => {
+    expect(() => new IdempotencyManager(store, { truncateBytes: 4 })).toThrow(/between 8 and 32/);
+    expect(() => new IdempotencyManager(store, { truncateBytes: 33 })).toThrow(/between 8 and 32/);
+    expect(() => steadyKey("abc", { truncateBytes: 7 })).toThrow(/truncateBytes/);
+
+    const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+    try {
+      new IdempotencyManager(store, { truncateBytes: 8 });
+      expect(emitWarning).toHaveBeenCalledWith(expect.stringContaining("64-bit keys"), {
+        code: "STEADYKEY_SHORT_DIGEST",
+      });
+      emitWarning.mockClear();
+      new IdempotencyManager(store, { truncateBytes: 16 });
+      expect(emitWarning).not.toHaveBeenCalled();
+    } finally {
+      emitWarning.mockRestore();
+    }
+  });
+
+  it("encrypts canonical payloads, metadata and results at rest", async () => {
+    const oldKey = { id: "kek-1", key: new Uint8Array(32).fill(1) };
+    const newKey = { id: "kek-2", key: new Uint8Array(32).fill(2) };
+    const options = { keyPrefix: "tests:idempotency", storeCanonicalPayload: true };
+    const before = new IdempotencyManager(store, { ...options, encryptionKeys: [oldKey] });
+
+    const payload = createPayload({ email: "jane@example.com" });
+    const { id, key } = await before.register(payload, { metadata: { customer: "jane" } });
+    const raw = (await store.get(key))!.value;
+    expect(raw).not.toContain("jane");
+    expect(JSON.parse(raw)).toMatchObject({ id, payloadHash: id, encrypted: { keyId: "kek-1" } });
+
+    const rotated = new IdempotencyManager(store, { ...options, encryptionKeys: [newKey, oldKey] });
+    const lookup = await rotated.lookupById(id);
+    expect(lookup?.record.metadata).toEqual({ customer: "jane" });
+    expect(lookup?.record.canonicalPayload).toBe(canonicalize(payload));
+    expect(lookup?.record.encrypted).toBeUndefined();
+
+    await rotated.markCompleted(id, { result: { statusCode: 201, body: { encoding: "json", data: "jane" } } });
+    const rewritten = JSON.parse((await store.get(key))!.value);
+    expect(rewritten.encrypted.keyId).toBe("kek-2");
+    expect(rewritten.result).toBeUndefined();
+
+    await expect(before.lookupById(id)).rejects.toBeInstanceOf(IdempotencySerializationError);
+    await expect(manager.lookupById(id)).rejects.toThrow(/unknown key kek-2/);
+  });
+
+  it("rejects tampered envelopes and invalid encryption keys", async () => {
+    const encryptionKeys = [{ id: "kek-1", key: new Uint8Array(32).fill(1) }];
+    const encrypted = new IdempotencyManager(store, { keyPrefix: "tests:idempotency", encryptionKeys });
+    const { id, key } = await encrypted.register(createPayload(), { metadata: { secret: true } });
+
+    const stored = JSON.parse((await store.get(key))!.value);
+    await store.update(key, JSON.stringify({ ...stored, payloadHash: "0".repeat(64) }), null);
+    await expect(encrypted.lookupById(id)).rejects.toThrow(/Failed to decrypt/);
+
+    expect(
+      () => new IdempotencyManager(store, { encryptionKeys: [{ id: "short", key: new Uint8Array(16) }] }),
+    ).toThrow(/32 bytes/);
+  });
+
+  it("compresses large records and still reads uncompressed ones", async () => {
+    const plainId = (await manager.register(createPayload({ note: "plain" }))).id;
+    const largePayload = createPayload({ notes: "lorem ipsum ".repeat(500) });
+
+    for (const algorithm of ["gzip", "brotli"] as const) {
+      const compressed = new IdempotencyManager(store, {
+        keyPrefix: "tests:idempotency",
+        storeCanonicalPayload: true,
+        compression: { algorithm, thresholdBytes: 512 },
+      });
+      const { id, key } = await compressed.register({ ...largePayload, algorithm });
+      const raw = (await store.get(key))!.value;
+      expect(JSON.parse(raw)).toEqual({ compression: algorithm, data: expect.any(String) });
+      expect(raw.length).toBeLessThan(1024);
+
+      const small = await compressed.register(createPayload({ algorithm }));
+      expect(JSON.parse((await store.get(small.key))!.value).id).toBe(small.id);
+
+      expect((await compressed.lookupById(id))?.record.canonicalPayload).toContain("lorem ipsum");
+      expect((await compressed.lookupById(plainId))?.record.id).toBe(plainId);
+      expect((await manager.lookupById(id))?.record.id).toBe(id);
+    }
+
+    const encryptionKeys = [{ id: "kek-1", key: new Uint8Array(32).fill(1) }];
+    const sizes = [];
+    for (const compression of [undefined, { algorithm: "gzip" as const, thresholdBytes: 512 }]) {
+      const sealed = new IdempotencyManager(store, {
+        keyPrefix: compression ? "tests:sealed-compressed" : "tests:sealed",
+        storeCanonicalPayload: true,
+        encryptionKeys,
+        compression,
+      });
+      const { id, key } = await sealed.register(largePayload);
+      const raw = (await store.get(key))!.value;
+      expect(JSON.parse(raw).encrypted.keyId).toBe("kek-1");
+      expect((await sealed.lookupById(id))?.record.canonicalPayload).toContain("lorem ipsum");
+      sizes.push(raw.length);
+    }
+    expect(sizes[1]).toBeLessThan(sizes[0] / 2);
+
+    expect(() => new IdempotencyManager(store, { compression: { algorithm: "zstd" as never } })).toThrow(
+      /Unsupported compression algorithm/,
+    );
+  });
+
+  it("records field selections and flags lookups made with different rules", async () => {
+    const fieldSelection = { exclude: ["requestedAt"] };
+    const projected = new IdempotencyManager(store, { keyPrefix: "tests:idempotency", fieldSelection });
+    const first = await projected.register(createPayload({ requestedAt: 1 }));
+    const second = await projected.register(createPayload({ requestedAt: 2 }));
+    expect(second.stored).toBe(false);
+    expect(first.record.fieldSelection).toEqual(fieldSelection);
+
+    expect((await projected.lookupById(first.id))?.fieldSelectionMatches).toBe(true);
+    expect((await manager.lookupById(first.id))?.fieldSelectionMatches).toBe(false);
+  });
+
   it("persists a new idempotency record and respects TTL", async () => {
     const payload = createPayload();
 
@@ -228,6 +536,51 @@ describe("IdempotencyManager", () => {
     await expect(manager.register(payload)).rejects.toBeInstanceOf(IdempotencyCollisionError);
   });
 
+  it("registers payloads under client-supplied keys", async () => {
+    const payload = createPayload();
+    const first = await manager.registerWithKey("client-key-1", payload);
+    expect(first.stored).toBe(true);
+    expect(first.id).toMatch(/^key:[\w-]{43}$/);
+    expect(first.key).toBe(`tests:idempotency:${first.id}`);
+    expect(first.record.payloadHash).toBe(manager.generateId(payload));
+
+    const duplicate = await manager.registerWithKey("client-key-1", createPayload());
+    expect(duplicate.stored).toBe(false);
+  });
+
+  it("rejects client keys reused with a different payload", async () => {
+    await manager.registerWithKey("client-key-1", createPayload());
+
+    const attempt = manager.registerWithKey("client-key-1", createPayload({ total: 99 }));
+    await expect(attempt).rejects.toBeInstanceOf(IdempotencyKeyMismatchError);
+    await expect(attempt).rejects.not.toBeInstanceOf(IdempotencyCollisionError);
+    await expect(manager.registerWithKey("", createPayload())).rejects.toThrow(/non-empty/);
+  });
+
+  it("keeps client keys apart from payload ids and from other scopes", async () => {
+    const payload = createPayload();
+    const hashed = await manager.register(payload);
+
+    const keyed = await manager.registerWithKey(hashed.id, createPayload({ total: 1 }));
+    expect(keyed.stored).toBe(true);
+    expect(keyed.id).not.toBe(hashed.id);
+
+    const scoped = await manager.registerWithKey(hashed.id, createPayload({ total: 2 }), { scope: "orders" });
+    expect(scoped.stored).toBe(true);
+    expect(scoped.id).toBe(keyed.id.replace(/^key:/, "key:orders:"));
+    await expect(manager.registerWithKey("k", payload, { scope: "a:b" })).rejects.toThrow(/scope/);
+    await expect(manager.registerWithKey("k", payload, { scope: "s".repeat(65) })).rejects.toThrow(/64/);
+  });
+
+  it("does not let a ':' in the client key mimic a scope", async () => {
+    const unscoped = await manager.registerWithKey("a:b", createPayload({ total: 1 }));
+    const scoped = await manager.registerWithKey("b", createPayload({ total: 2 }), { scope: "a" });
+
+    expect(scoped.stored).toBe(true);
+    expect(scoped.id).not.toBe(unscoped.id);
+    expect(unscoped.key.length).toBeLessThanOrEqual(128);
+  });
+
   it("supports lookup by payload", async () => {
     const payload = createPayload({ metadata: { firstAttempt: true } });
     const registration = await manager.register(payload);
@@ -237,6 +590,206 @@ describe("IdempotencyManager", () => {
     expect(lookup?.record.payloadHash).toBe(registration.record.payloadHash);
   });
 
+  it("tracks lifecycle states across duplicates", async () => {
+    const payload = createPayload();
+    const first = await manager.register(payload);
+    expect(first.record.status).toBe("in_progress");
+
+    const inFlight = await manager.register(payload);
+    expect(inFlight.stored).toBe(false);
+    expect(inFlight.record.status).toBe("in_progress");
+
+    const completed = await manager.markCompleted(first.id, { metadata: { orderId: "order-123" } });
+    expect(completed.status).toBe("completed");
+    expect(completed.updatedAt).toBeDefined();
+
+    const duplicate = await manager.register(payload);
+    expect(duplicate.record.status).toBe("completed");
+    expect(duplicate.record.metadata).toEqual({ orderId: "order-123" });
+
+    const lookup = await manager.lookupById(first.id);
+    expect((lookup?.ttlSeconds ?? 0)).toBeGreaterThan(0);
+  });
+
+  it("marks registrations as failed and rejects further transitions", async () => {
+    const { id } = await manager.register(createPayload());
+
+    const failed = await manager.markFailed(id);
+    expect(failed.status).toBe("failed");
+
+    await expect(manager.markCompleted(id)).rejects.toThrow(/already failed/);
+    await expect(manager.markFailed("missing")).rejects.toThrow(/missing key/);
+  });
+
+  it("treats records without a status as completed", async () => {
+    const { id, key, record } = await manager.register(createPayload());
+    const { status: _status, ...legacy } = record;
+    store.forceSet(key, JSON.stringify(legacy));
+
+    const lookup = await manager.lookupById(id);
+    expect(lookup?.record.status).toBe("completed");
+  });
+
+  it("replays stored results to duplicates", async () => {
+    const payload = createPayload();
+    const { id } = await manager.register(payload);
+
+    await manager.markCompleted(id, {
+      result: {
+        statusCode: 201,
+        headers: { "content-type": "application/json" },
+        body: { encoding: "json", data: { orderId: "order-123" } },
+      },
+    });
+
+    const duplicate = await manager.register(payload);
+    expect(duplicate.record.result?.statusCode).toBe(201);
+    expect(duplicate.record.result?.body).toEqual({ encoding: "json", data: { orderId: "order-123" } });
+
+    const lookup = await manager.lookupByPayload(payload);
+    expect(lookup?.record.result?.headers).toEqual({ "content-type": "application/json" });
+  });
+
+  it("rejects results above the configured size limit", async () => {
+    const limited = new IdempotencyManager(store, { maxResultBytes: 64 });
+    const { id } = await limited.register(createPayload());
+
+    await expect(
+      limited.markCompleted(id, {
+        result: { body: { encoding: "base64", data: Buffer.alloc(128).toString("base64") } },
+      }),
+    ).rejects.toBeInstanceOf(IdempotencyResultTooLargeError);
+
+    const lookup = await limited.lookupById(id);
+    expect(lookup?.record.status).toBe("in_progress");
+  });
+
+  it("runs handlers once and replays their value to duplicates", async () => {
+    const payload = createPayload();
+    let calls = 0;
+    const handler = async () => {
+      calls += 1;
+      return { orderId: "order-123", calls };
+    };
+
+    const first = await manager.run(payload, handler);
+    expect(first.executed).toBe(true);
+    expect(first.record.status).toBe("completed");
+
+    const second = await manager.run(payload, handler);
+    expect(second.executed).toBe(false);
+    expect(second.value).toEqual({ orderId: "order-123", calls: 1 });
+    expect(calls).toBe(1);
+  });
+
+  it("reports in-flight duplicates while a handler is running", async () => {
+    const payload = createPayload();
+    let release: () => void = () => undefined;
+    const pending = manager.run(
+      payload,
+      () =>
+        new Promise<string>((resolve) => {
+          release = () => resolve("done");
+        }),
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await expect(manager.run(payload, async () => "duplicate")).rejects.toBeInstanceOf(IdempotencyInProgressError);
+
+    release();
+    expect((await pending).value).toBe("done");
+  });
+
+  it("clears the key when the handler throws by default", async () => {
+    const payload = createPayload();
+    await expect(
+      manager.run(payload, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    expect(await manager.lookupByPayload(payload)).toBeNull();
+    const retry = await manager.run(payload, async () => "recovered");
+    expect(retry.executed).toBe(true);
+  });
+
+  it("marks the key failed when the fail policy is selected", async () => {
+    const payload = createPayload();
+    await expect(
+      manager.run(
+        payload,
+        async () => {
+          throw new Error("boom");
+        },
+        { onError: "fail" },
+      ),
+    ).rejects.toThrow("boom");
+
+    const lookup = await manager.lookupByPayload(payload);
+    expect(lookup?.record.status).toBe("failed");
+    await expect(manager.run(payload, async () => "retry")).rejects.toBeInstanceOf(IdempotencyFailedError);
+  });
+
+  it("waits for an in-flight duplicate by polling the store", async () => {
+    const payload = createPayload();
+    const { id } = await manager.register(payload);
+
+    setTimeout(() => {
+      void manager.markCompleted(id, { result: { statusCode: 200 } });
+    }, 20);
+
+    const duplicate = await manager.register(payload, { wait: { initialDelayMs: 5, timeoutMs: 1_000 } });
+    expect(duplicate.stored).toBe(false);
+    expect(duplicate.record.status).toBe("completed");
+    expect(duplicate.record.result?.statusCode).toBe(200);
+  });
+
+  it("claims the key when the in-flight request is cleared while waiting", async () => {
+    const payload = createPayload();
+    const { id } = await manager.register(payload);
+
+    setTimeout(() => {
+      void manager.clear(id);
+    }, 20);
+
+    const retry = await manager.register(payload, { wait: { initialDelayMs: 5 } });
+    expect(retry.stored).toBe(true);
+  });
+
+  it("times out when the in-flight request does not finish", async () => {
+    const payload = createPayload();
+    await manager.register(payload);
+
+    await expect(
+      manager.register(payload, { wait: { initialDelayMs: 5, timeoutMs: 30 } }),
+    ).rejects.toBeInstanceOf(IdempotencyWaitTimeoutError);
+  });
+
+  it("rejects wait options that would spin", async () => {
+    const { id } = await manager.register(createPayload());
+    for (const wait of [{ initialDelayMs: 0 }, { maxDelayMs: -1 }, { timeoutMs: Number.NaN }, { backoffFactor: 0.5 }]) {
+      await expect(manager.waitForCompletion(id, wait)).rejects.toBeInstanceOf(IdempotencyError);
+      await expect(manager.register(createPayload({ id: "other" }), { wait })).rejects.toThrow(/^wait\./);
+    }
+  });
+
+  it("wakes waiters through store change notifications", async () => {
+    const memoryStore = new InMemoryIdempotencyStore();
+    const pushManager = new IdempotencyManager(memoryStore);
+    const payload = createPayload();
+    const { id } = await pushManager.register(payload);
+
+    const started = Date.now();
+    const waiting = pushManager.waitForCompletion(id, { initialDelayMs: 5_000, timeoutMs: 10_000 });
+    setTimeout(() => {
+      void pushManager.markCompleted(id);
+    }, 10);
+
+    const settled = await waiting;
+    expect(settled?.record.status).toBe("completed");
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+
   it("honours fake timer advances for TTL", async () => {
     const payload = createPayload();
     const { id } = await manager.register(payload, { ttlSeconds: 10 });
@@ -249,3 +802,259 @@ describe("IdempotencyManager", () => {
     expect(await manager.lookupById(id)).toBeNull();
   });
 });
+
+describe("IdempotencyManager leases", () => {
+  let store: InMemoryIdempotencyStore;
+  let manager: IdempotencyManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    store = new InMemoryIdempotencyStore();
+    manager = new IdempotencyManager(store, { defaultTtlSeconds: 3600, leaseSeconds: 30 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets another caller take over once the lease lapses", async () => {
+    const payload = createPayload();
+    const first = await manager.register(payload);
+    expect(first.record.lease?.token).toBeDefined();
+
+    const blocked = await manager.register(payload);
+    expect(blocked.stored).toBe(false);
+
+    vi.advanceTimersByTime(31_000);
+    const takeover = await manager.register(payload);
+    expect(takeover.stored).toBe(true);
+    expect(takeover.record.lease?.token).not.toBe(first.record.lease?.token);
+
+    await expect(manager.renewLease(first.id, first.record.lease!.token)).rejects.toBeInstanceOf(
+      IdempotencyLeaseLostError,
+    );
+    await expect(
+      manager.markCompleted(first.id, { leaseToken: first.record.lease!.token }),
+    ).rejects.toBeInstanceOf(IdempotencyLeaseLostError);
+
+    const completed = await manager.markCompleted(takeover.id, { leaseToken: takeover.record.lease!.token });
+    expect(completed.status).toBe("completed");
+    expect(completed.lease).toBeUndefined();
+  });
+
+  it("keeps the lease alive through heartbeats", async () => {
+    const payload = createPayload();
+    const { id, record } = await manager.register(payload);
+    const heartbeat = manager.startHeartbeat(id, record.lease!.token, { intervalMs: 10_000 });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    const duplicate = await manager.register(payload);
+    expect(duplicate.stored).toBe(false);
+    expect(duplicate.record.lease?.token).toBe(record.lease?.token);
+
+    heartbeat.stop();
+    await vi.advanceTimersByTimeAsync(31_000);
+    expect((await manager.register(payload)).stored).toBe(true);
+  });
+
+  it("rejects leases on stores without conditional updates before any handler runs", async () => {
+    expect(() => new IdempotencyManager(new TestStore(), { leaseSeconds: 30 })).toThrow(/conditional updates/);
+
+    const manager = new IdempotencyManager(new TestStore());
+    const handler = vi.fn(async () => "done");
+    await expect(manager.run(createPayload(), handler, { leaseSeconds: 30 })).rejects.toThrow(/conditional updates/);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("reports lost leases to the heartbeat owner", async () => {
+    const { id, record } = await manager.register(createPayload());
+    const onLost = vi.fn();
+    manager.startHeartbeat(id, record.lease!.token, { intervalMs: 1_000, onLost });
+
+    await manager.clear(id);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(onLost).toHaveBeenCalledWith(expect.any(IdempotencyLeaseLostError));
+  });
+});
+
+describe("IdempotencyManager conditional updates", () => {
+  it("retries on version conflicts instead of overwriting concurrent writes", async () => {
+    const store = new InMemoryIdempotencyStore();
+    const manager = new IdempotencyManager(store, { defaultTtlSeconds: 60 });
+    const { id } = await manager.register(createPayload());
+
+    const compareAndSet = store.compareAndSet.bind(store);
+    const spy = vi.spyOn(store, "compareAndSet").mockImplementationOnce(async (...args) => {
+      await manager.updateTtl(id, 300);
+      return compareAndSet(...args);
+    });
+
+    await manager.markCompleted(id, { result: { statusCode: 201 } });
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(await manager.lookupById(id)).toMatchObject({
+      ttlSeconds: 300,
+      record: { status: "completed", result: { statusCode: 201 } },
+    });
+  });
+
+  it("refreshes TTLs through touch without rewriting the record", async () => {
+    const store = new InMemoryIdempotencyStore();
+    const manager = new IdempotencyManager(store, { defaultTtlSeconds: 60 });
+    const { id, key } = await manager.register(createPayload());
+    const { value } = (await store.get(key))!;
+    const update = vi.spyOn(store, "update");
+
+    await manager.updateTtl(id, null);
+    expect(update).not.toHaveBeenCalled();
+    expect((await store.get(key))?.value).toBe(value);
+    expect((await manager.lookupById(id))?.ttlSeconds).toBeNull();
+
+    await store.delete(key);
+    await expect(manager.updateTtl(id, 10)).rejects.toThrow(/missing key/);
+  });
+
+  it("rewrites the record TTL on stores whose lookups do not report one", async () => {
+    const store = new InMemoryIdempotencyStore();
+    const get = store.get.bind(store);
+    vi.spyOn(store, "get").mockImplementation(async (key) => {
+      const stored = await get(key);
+      return stored && { value: stored.value, version: stored.version };
+    });
+    const touch = vi.spyOn(store, "touch");
+    const manager = new IdempotencyManager(store, { defaultTtlSeconds: 60 });
+    const { id } = await manager.register(createPayload());
+
+    await manager.updateTtl(id, 300);
+    expect(touch).not.toHaveBeenCalled();
+    expect(await manager.lookupById(id)).toMatchObject({ ttlSeconds: 300, record: { ttlSeconds: 300 } });
+    expect((await manager.markCompleted(id)).ttlSeconds).toBe(300);
+  });
+
+  it("does not let a stale version land on a key that was deleted and created again", async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.setIfAbsent("a", "1", null);
+    const stale = (await store.get("a"))!.version!;
+    await store.delete("a");
+    await store.setIfAbsent("a", "1", null);
+
+    expect(await store.compareAndSet("a", stale, "2", null)).toBe(false);
+    expect((await store.get("a"))?.value).toBe("1");
+  });
+
+  it("gives up after repeated conflicts", async () => {
+    const store = new InMemoryIdempotencyStore();
+    const manager = new IdempotencyManager(store, { defaultTtlSeconds: 60 });
+    const { id } = await manager.register(createPayload());
+    vi.spyOn(store, "compareAndSet").mockResolvedValue(false);
+
+    await expect(manager.markCompleted(id)).rejects.toThrow(/conflicting concurrent writes/);
+  });
+});
+
+describe("IdempotencyManager batches", () => {
+  it("registers, looks up and clears many payloads through store batch methods", async () => {
+    const store = new InMemoryIdempotencyStore();
+    const setManyIfAbsent = vi.spyOn(store, "setManyIfAbsent");
+    const getMany = vi.spyOn(store, "getMany");
+    const setIfAbsent = vi.spyOn(store, "setIfAbsent");
+    const manager = new IdempotencyManager(store, { keyPrefix: "batch" });
+
+    const existing = await manager.register(createPayload({ id: "order-2" }));
+    setIfAbsent.mockClear();
+
+    const payloads = ["order-1", "order-2", "order-1"].map((id) => createPayload({ id }));
+    const results = await manager.registerMany(payloads);
+
+    expect(results.map(({ stored }) => stored)).toEqual([true, false, false]);
+    expect(results[0].id).toBe(manager.generateId(payloads[0]));
+    expect(results[1].id).toBe(existing.id);
+    expect(results[2].id).toBe(results[0].id);
+    expect(setManyIfAbsent).toHaveBeenCalledTimes(1);
+    expect(setManyIfAbsent.mock.calls[0][0]).toHaveLength(2);
+
+    getMany.mockClear();
+    const lookups = await manager.lookupManyByPayload([payloads[1], createPayload({ id: "unknown" }), payloads[0]]);
+    expect(lookups.map((lookup) => lookup?.id ?? null)).toEqual([existing.id, null, results[0].id]);
+    expect(getMany).toHaveBeenCalledTimes(1);
+
+    expect(await manager.clearMany([results[0].id, existing.id, results[0].id, "missing"])).toBe(2);
+    expect(await manager.lookupManyByPayload(payloads)).toEqual([null, null, null]);
+  });
+
+  it("resolves repeats within a batch without waiting on the batch's own claim", async () => {
+    const manager = new IdempotencyManager(new InMemoryIdempotencyStore(), { defaultTtlSeconds: 60 });
+    const payload = createPayload({ id: "order-9" });
+
+    const [first, repeat] = await manager.registerMany([payload, payload], { wait: { timeoutMs: 50 } });
+    expect(first.stored).toBe(true);
+    expect(repeat).toEqual({ ...first, stored: false });
+  });
+
+  it("falls back to per-key calls and checks previous formats", async () => {
+    const store = new TestStore();
+    const legacy = new IdempotencyManager(store, { keyPrefix: "batch" });
+    const original = await legacy.register(createPayload({ id: "order-1" }));
+
+    const manager = new IdempotencyManager(store, {
+      keyPrefix: "batch",
+      formatVersion: 2,
+      previousFormats: [{ version: 1 }],
+    });
+    const results = await manager.registerMany([createPayload({ id: "order-1" }), createPayload({ id: "order-3" })]);
+    expect(results.map(({ id, stored }) => [id, stored])).toEqual([
+      [original.id, false],
+      [manager.generateId(createPayload({ id: "order-3" })), true],
+    ]);
+
+    const lookups = await manager.lookupManyByPayload(["order-1", "order-3"].map((id) => createPayload({ id })));
+    expect(lookups.map((lookup) => lookup?.id)).toEqual([original.id, results[1].id]);
+    expect(await manager.clearMany(results.map(({ id }) => id))).toBe(2);
+    expect(await manager.registerMany([])).toEqual([]);
+  });
+});
+
+describe("IdempotencyManager listing", () => {
+  it("lists records under the key prefix page by page", async () => {
+    const store = new InMemoryIdempotencyStore();
+    const manager = new IdempotencyManager(store, { keyPrefix: "orders" });
+    const other = new IdempotencyManager(store, { keyPrefix: "payments" });
+    await other.register(createPayload());
+    const tenantA = [];
+    for (const key of ["1", "2"]) {
+      tenantA.push((await manager.registerWithKey(key, createPayload({ id: key }), { scope: "tenant-a" })).id);
+    }
+    const tenantB = await manager.registerWithKey("1", createPayload({ id: "1" }), { scope: "tenant-b" });
+    await manager.registerWithKey("3", createPayload(), { scope: "tenant-a", ttlSeconds: 5 });
+    store.advanceTime(6_000);
+    tenantA.sort();
+
+    const all = [];
+    for await (const entry of manager.listRecords()) {
+      all.push(entry.id);
+    }
+    expect(all).toEqual([...tenantA, tenantB.id]);
+
+    const page = [];
+    for await (const entry of manager.listRecords({ prefix: "key:tenant-a:", limit: 1 })) {
+      page.push(entry);
+    }
+    expect(page).toHaveLength(1);
+    expect(page[0]).toMatchObject({
+      id: tenantA[0],
+      key: `orders:${tenantA[0]}`,
+      record: { status: "in_progress" },
+    });
+
+    const next = [];
+    for await (const entry of manager.listRecords({ prefix: "key:tenant-a:", cursor: page[0].cursor })) {
+      next.push(entry.id);
+    }
+    expect(next).toEqual([tenantA[1]]);
+  });
+
+  it("requires a store that can scan", async () => {
+    const manager = new IdempotencyManager(new TestStore());
+    await expect(manager.listRecords().next()).rejects.toThrow(/does not support scanning/);
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  IdempotencyCollisionError,
+  IdempotencyManager,
+  InMemoryIdempotencyStore,
+  InMemoryInstrumentation,
+  createOpenTelemetryInstrumentation,
+} from "../src/index.js";
+import type { OpenTelemetryAttributes, OpenTelemetryMeterLike, OpenTelemetryTracerLike } from "../src/index.js";
+
+describe("IdempotencyManager instrumentation", () => {
+  let store: InMemoryIdempotencyStore;
+  let instrumentation: InMemoryInstrumentation;
+  let manager: IdempotencyManager;
+
+  beforeEach(() => {
+    store = new InMemoryIdempotencyStore();
+    instrumentation = new InMemoryInstrumentation();
+    manager = new IdempotencyManager(store, { defaultTtlSeconds: 60, instrumentation });
+  });
+
+  it("emits registration, lookup and clear events with timings", async () => {
+    const first = await manager.register({ order: 1 });
+    await manager.register({ order: 1 });
+    await manager.registerMany([{ order: 1 }, { order: 2 }]);
+    await manager.lookupById(first.id);
+    await manager.lookupByPayload({ order: 3 });
+    await manager.lookupManyByPayload([{ order: 2 }, { order: 4 }]);
+    await manager.clear(first.id);
+
+    const events = instrumentation.events.filter(({ type }) => type !== "store_call");
+    expect(events.map(({ type }) => type)).toEqual([
+      "register_stored",
+      "register_duplicate",
+      "register_duplicate",
+      "register_stored",
+      "lookup_hit",
+      "lookup_miss",
+      "lookup_hit",
+      "lookup_miss",
+      "clear",
+    ]);
+    expect(events[0]).toEqual({
+      type: "register_stored",
+      key: first.key,
+      durationMs: expect.any(Number),
+    });
+    expect(instrumentation.events.every(({ durationMs }) => durationMs >= 0)).toBe(true);
+  });
+
+  it("reports the duration of every successful store call", async () => {
+    const { id, key } = await manager.register({ order: 1 });
+    await manager.lookupById(id);
+
+    const calls = instrumentation.events.filter(({ type }) => type === "store_call");
+    expect(calls.map(({ operation }) => operation)).toEqual(["setIfAbsent", "get"]);
+    expect(calls[0]).toEqual({ type: "store_call", key, durationMs: expect.any(Number), operation: "setIfAbsent" });
+    expect(instrumentation.count("store_error")).toBe(0);
+  });
+
+  it("does not report the calls a store makes internally", async () => {
+    await manager.register({ order: 1 });
+    await manager.register({ order: 2 });
+    instrumentation.clear();
+
+    const listed = [];
+    for await (const entry of manager.listRecords()) {
+      listed.push(entry.id);
+    }
+    expect(listed).toHaveLength(2);
+    expect(instrumentation.count("store_call")).toBe(0);
+  });
+
+  it("reports collisions and failed store calls", async () => {
+    const { key } = await manager.register({ order: 1 });
+    const stored = (await store.get(key))!;
+    await store.update(key, stored.value.replace(/"payloadHash":"[^"]+"/, '"payloadHash":"other"'), 60);
+    await expect(manager.register({ order: 1 })).rejects.toBeInstanceOf(IdempotencyCollisionError);
+    expect(instrumentation.events.at(-1)).toMatchObject({ type: "collision", key });
+
+    const failure = new Error("connection reset");
+    vi.spyOn(store, "get").mockRejectedValueOnce(failure);
+    await expect(manager.lookupById("missing")).rejects.toBe(failure);
+    expect(instrumentation.events.at(-1)).toMatchObject({
+      type: "store_error",
+      operation: "get",
+      key: manager.buildKey("missing"),
+      error: failure,
+    });
+    expect(instrumentation.count("store_error")).toBe(1);
+  });
+
+  it("ignores instrumentation failures", async () => {
+    const throwing = new IdempotencyManager(store, {
+      instrumentation: {
+        onEvent: () => {
+          throw new Error("exporter down");
+        },
+      },
+    });
+    expect((await throwing.register({ order: 1 })).stored).toBe(true);
+  });
+});
+
+describe("createOpenTelemetryInstrumentation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("records spans, counters and histograms", () => {
+    const spans: { name: string; startTime?: number | Date; attributes?: OpenTelemetryAttributes; status?: number }[] =
+      [];
+    const tracer: OpenTelemetryTracerLike = {
+      startSpan(name, options) {
+        const span: (typeof spans)[number] = { name, ...options };
+        spans.push(span);
+        return {
+          setStatus: ({ code }) => (span.status = code),
+          recordException: () => undefined,
+          end: () => undefined,
+        };
+      },
+    };
+    const counted: [number, OpenTelemetryAttributes | undefined][] = [];
+    const recorded: [number, OpenTelemetryAttributes | undefined][] = [];
+    const meter: OpenTelemetryMeterLike = {
+      createCounter: () => ({ add: (value, attributes) => counted.push([value, attributes]) }),
+      createHistogram: () => ({ record: (value, attributes) => recorded.push([value, attributes]) }),
+    };
+    const instrumentation = createOpenTelemetryInstrumentation({ tracer, meter, recordKeys: true });
+
+    instrumentation.onEvent({ type: "lookup_hit", key: "idempotency:a", durationMs: 12 });
+    instrumentation.onEvent({ type: "store_error", durationMs: 3, operation: "get", error: new Error("down") });
+    instrumentation.onEvent({ type: "store_call", durationMs: 1, operation: "setIfAbsent" });
+
+    expect(spans).toEqual([
+      {
+        name: "steadykey.lookup",
+        startTime: Date.now() - 12,
+        attributes: { "steadykey.event": "lookup_hit", "steadykey.key": "idempotency:a" },
+      },
+      {
+        name: "steadykey.store",
+        startTime: Date.now() - 3,
+        attributes: { "steadykey.event": "store_error", "steadykey.store.operation": "get" },
+        status: 2,
+      },
+      {
+        name: "steadykey.store",
+        startTime: Date.now() - 1,
+        attributes: { "steadykey.event": "store_call", "steadykey.store.operation": "setIfAbsent" },
+      },
+    ]);
+    expect(counted).toEqual([
+      [1, { "steadykey.event": "lookup_hit" }],
+      [1, { "steadykey.event": "store_error", "steadykey.store.operation": "get" }],
+      [1, { "steadykey.event": "store_call", "steadykey.store.operation": "setIfAbsent" }],
+    ]);
+    expect(recorded.map(([value]) => value)).toEqual([12, 3, 1]);
+  });
+});
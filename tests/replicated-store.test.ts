@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  IdempotencyManager,
+  IdempotencyStoreUnavailableError,
+  InMemoryIdempotencyStore,
+  ReplicatedIdempotencyStore,
+} from "../src/index.js";
+
+describe("ReplicatedIdempotencyStore", () => {
+  let replicas: InMemoryIdempotencyStore[];
+  let store: ReplicatedIdempotencyStore;
+
+  beforeEach(() => {
+    replicas = [new InMemoryIdempotencyStore(), new InMemoryIdempotencyStore(), new InMemoryIdempotencyStore()];
+    store = new ReplicatedIdempotencyStore(replicas);
+  });
+
+  const fail = (replica: InMemoryIdempotencyStore, method: "setIfAbsent" | "get" | "update" | "delete") =>
+    vi.spyOn(replica, method).mockRejectedValue(new Error("region down"));
+
+  it("inserts once a majority of replicas accept, tolerating a failed replica", async () => {
+    const onReplicaError = vi.fn();
+    store = new ReplicatedIdempotencyStore(replicas, { onReplicaError });
+    fail(replicas[2], "setIfAbsent");
+
+    expect(await store.setIfAbsent("a", "1", 60)).toBe(true);
+    expect(await store.setIfAbsent("a", "2", 60)).toBe(false);
+    expect(onReplicaError).toHaveBeenCalledWith("setIfAbsent", 2, expect.any(Error));
+    expect(await replicas[0].get("a")).toMatchObject({ value: "1" });
+  });
+
+  it("refuses to decide when failed replicas could have changed the outcome and undoes partial inserts", async () => {
+    fail(replicas[1], "setIfAbsent");
+    fail(replicas[2], "setIfAbsent");
+
+    await expect(store.setIfAbsent("a", "1", 60)).rejects.toBeInstanceOf(IdempotencyStoreUnavailableError);
+    expect(await replicas[0].get("a")).toBeNull();
+  });
+
+  it("leaves replicas alone when the insert being undone was overwritten", async () => {
+    const setIfAbsent = replicas[0].setIfAbsent.bind(replicas[0]);
+    vi.spyOn(replicas[0], "setIfAbsent").mockImplementation(async (key, value, ttlSeconds) => {
+      const inserted = await setIfAbsent(key, value, ttlSeconds);
+      await replicas[0].update(key, "newer", ttlSeconds);
+      return inserted;
+    });
+    fail(replicas[1], "setIfAbsent");
+    fail(replicas[2], "setIfAbsent");
+
+    await expect(store.setIfAbsent("a", "1", null)).rejects.toBeInstanceOf(IdempotencyStoreUnavailableError);
+    expect(await replicas[0].get("a")).toMatchObject({ value: "newer" });
+  });
+
+  it("loses to a key already held by a quorum and removes its own stray insert", async () => {
+    await replicas[0].setIfAbsent("a", "existing", null);
+    await replicas[1].setIfAbsent("a", "existing", null);
+
+    expect(await store.setIfAbsent("a", "new", null)).toBe(false);
+    expect(await replicas[2].get("a")).toBeNull();
+  });
+
+  it("refuses to decide a split vote that leaves neither side with a quorum", async () => {
+    replicas.push(new InMemoryIdempotencyStore());
+    store = new ReplicatedIdempotencyStore(replicas, { writeQuorum: 3 });
+    await replicas[0].setIfAbsent("a", "existing", null);
+    await replicas[1].setIfAbsent("a", "existing", null);
+
+    await expect(store.setIfAbsent("a", "new", null)).rejects.toBeInstanceOf(IdempotencyStoreUnavailableError);
+    expect(await replicas[2].get("a")).toBeNull();
+    expect(await replicas[3].get("a")).toBeNull();
+  });
+
+  it("reads the majority value and repairs missing or divergent replicas", async () => {
+    await replicas[0].setIfAbsent("a", "stale", null);
+    await replicas[1].setIfAbsent("a", "current", null);
+    await replicas[2].setIfAbsent("a", "current", null);
+
+    expect(await store.get("a")).toEqual({ value: "current", ttlSeconds: null });
+    expect(await replicas[0].get("a")).toMatchObject({ value: "current" });
+
+    await replicas[1].delete("a");
+    await store.get("a");
+    expect(await replicas[1].get("a")).toMatchObject({ value: "current" });
+  });
+
+  it("does not bring back a key that only a minority of replicas still holds", async () => {
+    await replicas[0].setIfAbsent("a", "leftover", null);
+
+    expect(await store.get("a")).toBeNull();
+    expect(await replicas[1].get("a")).toBeNull();
+    expect(await replicas[2].get("a")).toBeNull();
+  });
+
+  it("requires a read quorum and fans deletes out on a best-effort basis", async () => {
+    await store.setIfAbsent("a", "1", null);
+    fail(replicas[0], "get");
+    fail(replicas[1], "get");
+    await expect(store.get("a")).rejects.toThrow(/reached 1 of 2 required replicas/);
+
+    fail(replicas[0], "delete");
+    expect(await store.delete("a")).toBe(true);
+    expect(await replicas[2].get("a")).toBeNull();
+    fail(replicas[1], "delete");
+    fail(replicas[2], "delete");
+    await expect(store.delete("a")).rejects.toBeInstanceOf(IdempotencyStoreUnavailableError);
+  });
+
+  it("supports the manager lifecycle with a replica down", async () => {
+    fail(replicas[1], "setIfAbsent");
+    fail(replicas[1], "update");
+    const manager = new IdempotencyManager(store, { defaultTtlSeconds: 60 });
+
+    const { id } = await manager.register({ order: 1 });
+    await manager.markCompleted(id);
+    expect((await manager.register({ order: 1 })).record.status).toBe("completed");
+  });
+
+  it("validates quorum sizes", () => {
+    expect(() => new ReplicatedIdempotencyStore([])).toThrow(/At least one replica/);
+    expect(() => new ReplicatedIdempotencyStore(replicas, { writeQuorum: 4 })).toThrow(/writeQuorum/);
+    expect(() => new ReplicatedIdempotencyStore(replicas, { readQuorum: 0 })).toThrow(/readQuorum/);
+  });
+});
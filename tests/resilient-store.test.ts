@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  IdempotencyManager,
+  IdempotencyStoreUnavailableError,
+  InMemoryIdempotencyStore,
+  ResilientIdempotencyStore,
+} from "../src/index.js";
+
+describe("ResilientIdempotencyStore", () => {
+  let inner: InMemoryIdempotencyStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    inner = new InMemoryIdempotencyStore();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("times out slow calls with a typed error", async () => {
+    const store = new ResilientIdempotencyStore(inner, { timeoutMs: 100, retry: false });
+    vi.spyOn(inner, "setIfAbsent").mockReturnValue(new Promise(() => undefined));
+
+    const pending = expect(store.setIfAbsent("a", "1", null)).rejects.toThrow(/setIfAbsent timed out after 100ms/);
+    await vi.advanceTimersByTimeAsync(100);
+    await pending;
+  });
+
+  it("unsubscribes watches that complete after timing out", async () => {
+    const unsubscribe = vi.fn(async () => undefined);
+    vi.spyOn(inner, "watch").mockReturnValue(
+      new Promise((resolve) => {
+        setTimeout(() => resolve(unsubscribe), 200);
+      }),
+    );
+    const store = new ResilientIdempotencyStore(inner, { timeoutMs: 100, retry: false });
+
+    const pending = expect(store.watch!("a", () => undefined)).rejects.toThrow(/watch timed out/);
+    await vi.advanceTimersByTimeAsync(100);
+    await pending;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries safe operations with backoff but not inserts", async () => {
+    const store = new ResilientIdempotencyStore(inner, { retry: { attempts: 3, initialDelayMs: 100 } });
+    await inner.setIfAbsent("a", "1", null);
+    const get = vi
+      .spyOn(inner, "get")
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockRejectedValueOnce(new Error("ECONNRESET"));
+
+    const pending = store.get("a");
+    await vi.advanceTimersByTimeAsync(50 + 100);
+    expect(await pending).toMatchObject({ value: "1" });
+    expect(get).toHaveBeenCalledTimes(3);
+
+    const setIfAbsent = vi.spyOn(inner, "setIfAbsent").mockRejectedValueOnce(new Error("ECONNRESET"));
+    await expect(store.setIfAbsent("b", "2", null)).rejects.toBeInstanceOf(IdempotencyStoreUnavailableError);
+    expect(setIfAbsent).toHaveBeenCalledTimes(1);
+
+    const remove = vi.spyOn(inner, "delete").mockRejectedValueOnce(new Error("ECONNRESET"));
+    await expect(store.delete("a")).rejects.toBeInstanceOf(IdempotencyStoreUnavailableError);
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+
+  it("opens the circuit after repeated failures and closes it after a successful trial", async () => {
+    const onFailure = vi.fn();
+    const store = new ResilientIdempotencyStore(inner, {
+      retry: false,
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 1_000 },
+      onFailure,
+    });
+    const get = vi.spyOn(inner, "get").mockRejectedValue(new Error("down"));
+
+    await expect(store.get("a")).rejects.toThrow(/Store get failed: down/);
+    await expect(store.get("a")).rejects.toThrow(/down/);
+    expect(store.circuitState()).toBe("open");
+    await expect(store.get("a")).rejects.toThrow(/Circuit is open/);
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(onFailure).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(1_000);
+    get.mockResolvedValue(null);
+    expect(await store.get("a")).toBeNull();
+    expect(store.circuitState()).toBe("closed");
+  });
+
+  it("treats the store as empty when failing open", async () => {
+    const store = new ResilientIdempotencyStore(inner, { failurePolicy: "fail_open", retry: false });
+    vi.spyOn(inner, "get").mockRejectedValue(new Error("down"));
+    vi.spyOn(inner, "setIfAbsent").mockRejectedValue(new Error("down"));
+
+    const manager = new IdempotencyManager(store);
+    const first = await manager.register({ order: 1 });
+    const second = await manager.register({ order: 1 });
+    expect(first.stored).toBe(true);
+    expect(second.stored).toBe(true);
+    expect(await manager.lookupById(first.id)).toBeNull();
+
+    vi.spyOn(inner, "compareAndSet").mockRejectedValue(new Error("down"));
+    vi.spyOn(inner, "updateIfMatches").mockRejectedValue(new Error("down"));
+    vi.spyOn(inner, "touch").mockRejectedValue(new Error("down"));
+    expect(await store.compareAndSet!("a", "1", "2", null)).toBe(false);
+    expect(await store.updateIfMatches!("a", "1", "2", null)).toBe(false);
+    expect(await store.touch!("a", 60)).toBe(false);
+  });
+
+  it("fails open when the record behind a conflicting insert cannot be read", async () => {
+    const store = new ResilientIdempotencyStore(inner, { failurePolicy: "fail_open", retry: false });
+    const manager = new IdempotencyManager(store);
+    await manager.register({ order: 1 });
+    vi.spyOn(inner, "get").mockRejectedValue(new Error("down"));
+
+    expect((await manager.register({ order: 1 })).stored).toBe(true);
+  });
+
+  it("passes through errors that do not signal unavailability", async () => {
+    const store = new ResilientIdempotencyStore(inner, { isFailure: (error) => !(error instanceof TypeError) });
+    const failure = new TypeError("bad input");
+    vi.spyOn(inner, "get").mockRejectedValue(failure);
+
+    await expect(store.get("a")).rejects.toBe(failure);
+  });
+
+  it("only exposes optional operations the wrapped store supports", () => {
+    const minimal = new ResilientIdempotencyStore({
+      setIfAbsent: async () => true,
+      get: async () => null,
+      update: async () => undefined,
+      delete: async () => false,
+    });
+    expect(minimal.compareAndSet).toBeUndefined();
+    expect(minimal.scan).toBeUndefined();
+    expect(new ResilientIdempotencyStore(inner).compareAndSet).toBeTypeOf("function");
+    expect(() => new ResilientIdempotencyStore(inner, { timeoutMs: -1 })).toThrow(/timeoutMs/);
+    expect(() => new ResilientIdempotencyStore(inner, { operationTimeoutsMs: { get: 0 } })).not.toThrow();
+  });
+});
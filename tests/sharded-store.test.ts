@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IdempotencyManager, InMemoryIdempotencyStore, ShardedIdempotencyStore } from "../src/index.js";
+import type { IdempotencyScanEntry } from "../src/index.js";
+
+const keys = Array.from({ length: 2_000 }, (_, index) => `idempotency:key-${index}`);
+
+const countByShard = (store: ShardedIdempotencyStore): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const key of keys) {
+    const shard = store.shardFor(key);
+    counts[shard] = (counts[shard] ?? 0) + 1;
+  }
+  return counts;
+};
+
+describe("ShardedIdempotencyStore", () => {
+  let stores: InMemoryIdempotencyStore[];
+  let sharded: ShardedIdempotencyStore;
+
+  beforeEach(() => {
+    stores = [new InMemoryIdempotencyStore(), new InMemoryIdempotencyStore(), new InMemoryIdempotencyStore()];
+    sharded = new ShardedIdempotencyStore(stores.map((store, index) => ({ id: `node-${index}`, store })));
+  });
+
+  it("routes every operation on a key to the shard that owns it", async () => {
+    expect(await sharded.setIfAbsent("a", "1", null)).toBe(true);
+    expect(await sharded.setIfAbsent("a", "2", null)).toBe(false);
+
+    const owner = stores[Number(sharded.shardFor("a").slice("node-".length))];
+    expect(await owner.get("a")).toMatchObject({ value: "1" });
+    expect(await Promise.all(stores.map((store) => store.get("a")))).toEqual(
+      stores.map((store) => (store === owner ? expect.objectContaining({ value: "1" }) : null)),
+    );
+    expect(await sharded.compareAndSet!("a", (await sharded.get("a"))!.version!, "3", null)).toBe(true);
+    expect(await sharded.delete("a")).toBe(true);
+    expect(await owner.get("a")).toBeNull();
+  });
+
+  it("spreads keys by weight and only moves the keys of a removed shard", () => {
+    const weighted = new ShardedIdempotencyStore([
+      { id: "small", store: stores[0] },
+      { id: "large", store: stores[1], weight: 3 },
+    ]);
+    const counts = countByShard(weighted);
+    expect(counts.large / keys.length).toBeGreaterThan(0.65);
+    expect(counts.large / keys.length).toBeLessThan(0.85);
+
+    const shrunk = new ShardedIdempotencyStore([
+      { id: "node-0", store: stores[0] },
+      { id: "node-1", store: stores[1] },
+    ]);
+    const moved = keys.filter((key) => sharded.shardFor(key) !== shrunk.shardFor(key));
+    expect(moved.every((key) => sharded.shardFor(key) === "node-2")).toBe(true);
+  });
+
+  it("splits batches per shard and keeps input order", async () => {
+    const batch = keys.slice(0, 20);
+    expect(await sharded.setManyIfAbsent!(batch.map((key) => ({ key, value: key, ttlSeconds: null })))).toEqual(
+      batch.map(() => true),
+    );
+    expect((await sharded.getMany([...batch, "missing"])).map((stored) => stored?.value ?? null)).toEqual([
+      ...batch,
+      null,
+    ]);
+
+    const scanned: IdempotencyScanEntry[] = [];
+    for await (const entry of sharded.scan!("idempotency:", { limit: 5 })) {
+      scanned.push(entry);
+    }
+    for await (const entry of sharded.scan!("idempotency:", { cursor: scanned[4].cursor })) {
+      scanned.push(entry);
+    }
+    expect(scanned.map(({ key }) => key).sort()).toEqual([...batch].sort());
+
+    expect(await sharded.deleteMany(batch)).toBe(20);
+    expect(await sharded.getMany(batch)).toEqual(batch.map(() => null));
+  });
+
+  it("reports per-shard health without rerouting keys", async () => {
+    const onShardError = vi.fn();
+    sharded = new ShardedIdempotencyStore(
+      stores.map((store, index) => ({ id: `node-${index}`, store })),
+      { unhealthyAfter: 2, onShardError },
+    );
+    const key = keys.find((candidate) => sharded.shardFor(candidate) === "node-1")!;
+    const failure = new Error("connection refused");
+    vi.spyOn(stores[1], "get").mockRejectedValue(failure);
+
+    await expect(sharded.get(key)).rejects.toBe(failure);
+    await expect(sharded.get(key)).rejects.toBe(failure);
+    expect(onShardError).toHaveBeenCalledWith("node-1", failure);
+    expect(sharded.shardHealth()).toEqual([
+      { id: "node-0", weight: 1, healthy: true, calls: 0, failures: 0, consecutiveFailures: 0 },
+      {
+        id: "node-1",
+        weight: 1,
+        healthy: false,
+        calls: 2,
+        failures: 2,
+        consecutiveFailures: 2,
+        lastError: failure,
+        lastFailureAt: expect.any(Number),
+      },
+      { id: "node-2", weight: 1, healthy: true, calls: 0, failures: 0, consecutiveFailures: 0 },
+    ]);
+
+    vi.mocked(stores[1].get).mockResolvedValue(null);
+    await sharded.get(key);
+    expect(sharded.shardHealth()[1]).toMatchObject({ healthy: true, consecutiveFailures: 0, failures: 2 });
+  });
+
+  it("keeps the shard error when the error callback throws", async () => {
+    sharded = new ShardedIdempotencyStore(
+      stores.map((store, index) => ({ id: `node-${index}`, store })),
+      {
+        onShardError: () => {
+          throw new Error("callback failed");
+        },
+      },
+    );
+    const key = keys.find((candidate) => sharded.shardFor(candidate) === "node-1")!;
+    const failure = new Error("connection refused");
+    vi.spyOn(stores[1], "get").mockRejectedValue(failure);
+
+    await expect(sharded.get(key)).rejects.toBe(failure);
+    expect(sharded.shardHealth()[1]).toMatchObject({ failures: 1, lastError: failure });
+  });
+
+  it("backs the manager lifecycle", async () => {
+    const manager = new IdempotencyManager(sharded, { defaultTtlSeconds: 60 });
+    const { id } = await manager.register({ order: 1 });
+    await manager.markCompleted(id);
+    expect((await manager.register({ order: 1 })).record.status).toBe("completed");
+  });
+
+  it("validates shards", () => {
+    const store = stores[0];
+    expect(() => new ShardedIdempotencyStore([])).toThrow(/At least one shard/);
+    expect(() => new ShardedIdempotencyStore([{ id: "a", store }, { id: "a", store }])).toThrow(/unique/);
+    expect(() => new ShardedIdempotencyStore([{ id: "a", store, weight: 0 }])).toThrow(/positive weight/);
+  });
+});
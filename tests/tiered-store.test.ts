@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IdempotencyManager, InMemoryIdempotencyStore, TieredIdempotencyStore } from "../src/index.js";
+
+describe("TieredIdempotencyStore", () => {
+  let remote: InMemoryIdempotencyStore;
+  let store: TieredIdempotencyStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    remote = new InMemoryIdempotencyStore();
+    store = new TieredIdempotencyStore(remote, { maxEntries: 2, cacheTtlSeconds: 10 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("always inserts through the remote store and serves hot keys locally", async () => {
+    const setIfAbsent = vi.spyOn(remote, "setIfAbsent");
+    const get = vi.spyOn(remote, "get");
+
+    expect(await store.setIfAbsent("a", "1", 60)).toBe(true);
+    expect(await store.setIfAbsent("a", "2", 60)).toBe(false);
+    expect(setIfAbsent).toHaveBeenCalledTimes(2);
+
+    expect(await store.get("a")).toMatchObject({ value: "1", ttlSeconds: 60 });
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(await store.get("a")).toMatchObject({ value: "1", ttlSeconds: 60 });
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the remote TTL and refetches once the cache entry expires", async () => {
+    await remote.setIfAbsent("a", "1", 60);
+    const get = vi.spyOn(remote, "get");
+    await store.get("a");
+
+    vi.advanceTimersByTime(5_000);
+    expect(await store.get("a")).toMatchObject({ ttlSeconds: 55 });
+    expect(get).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(5_000);
+    expect(await store.get("a")).toMatchObject({ ttlSeconds: 50 });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache misses and evicts the least recently used entries", async () => {
+    const get = vi.spyOn(remote, "get");
+    expect(await store.get("missing")).toBeNull();
+    expect(await store.get("missing")).toBeNull();
+    expect(get).toHaveBeenCalledTimes(2);
+
+    for (const key of ["a", "b", "c"]) {
+      await remote.setIfAbsent(key, key, null);
+    }
+    expect(await store.getMany(["a", "b"])).toMatchObject([{ value: "a" }, { value: "b" }]);
+    await store.get("a");
+    await store.get("c");
+    get.mockClear();
+
+    await store.get("a");
+    expect(get).not.toHaveBeenCalled();
+    await store.get("b");
+    expect(get).toHaveBeenCalledWith("b");
+  });
+
+  it("drops cached entries when a conditional write loses", async () => {
+    await store.setIfAbsent("a", "1", null);
+    await store.get("a");
+    await remote.update("a", "changed elsewhere", null);
+    expect((await store.get("a"))?.value).toBe("1");
+
+    expect(await store.updateIfMatches!("a", "1", "2", null)).toBe(false);
+    expect((await store.get("a"))?.value).toBe("changed elsewhere");
+  });
+
+  it("caches entries with their remote version and drops them on writes", async () => {
+    await store.setIfAbsent("a", "1", null);
+    const cached = await store.get("a");
+    expect(cached?.version).toBe((await remote.get("a"))?.version);
+
+    expect(await store.compareAndSet!("a", cached!.version!, "2", null)).toBe(true);
+    const get = vi.spyOn(remote, "get");
+    expect(await store.get("a")).toMatchObject({ value: "2", version: (await remote.get("a"))?.version });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets the manager complete records registered through the cache", async () => {
+    const manager = new IdempotencyManager(store, { defaultTtlSeconds: 60 });
+    const { id } = await manager.register({ order: 1 });
+    await manager.lookupById(id);
+
+    const completed = await manager.markCompleted(id);
+    expect(completed.status).toBe("completed");
+    expect((await manager.register({ order: 1 })).record.status).toBe("completed");
+  });
+});
+
+describe("InMemoryIdempotencyStore maxEntries", () => {
+  it("evicts the least recently used entry beyond the bound", async () => {
+    const store = new InMemoryIdempotencyStore({ maxEntries: 2 });
+    await store.setIfAbsent("a", "1", null);
+    await store.setIfAbsent("b", "2", null);
+    await store.get("a");
+    await store.setIfAbsent("c", "3", null);
+
+    expect(await store.get("a")).not.toBeNull();
+    expect(await store.get("b")).toBeNull();
+    expect(() => new InMemoryIdempotencyStore({ maxEntries: 0 })).toThrow(/maxEntries/);
+  });
+
+  it("drops expired entries before evicting a live one", async () => {
+    let now = 0;
+    const store = new InMemoryIdempotencyStore({ maxEntries: 2, now: () => now });
+    await store.setIfAbsent("a", "1", null);
+    await store.setIfAbsent("b", "2", 1);
+    const evicted = vi.fn();
+    await store.watch("b", evicted);
+    now = 2_000;
+    await store.setIfAbsent("c", "3", null);
+
+    expect(await store.get("a")).not.toBeNull();
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+    expect(evicted).not.toHaveBeenCalled();
+  });
+
+  it("evicts without sweeping expired entries past the least recently used ones", async () => {
+    let now = 0;
+    const store = new InMemoryIdempotencyStore({ maxEntries: 40, now: () => now });
+    for (let index = 0; index < 32; index += 1) {
+      await store.setIfAbsent(`live-${index}`, "1", null);
+    }
+    for (let index = 0; index < 8; index += 1) {
+      await store.setIfAbsent(`expiring-${index}`, "1", 1);
+    }
+    now = 2_000;
+    await store.setIfAbsent("new", "1", null);
+
+    expect(await store.get("live-0")).toBeNull();
+    expect(await store.get("live-1")).not.toBeNull();
+    expect(await store.purgeExpired()).toBe(8);
+  });
+});